@@ -1,36 +1,51 @@
 // Code generated by sqlc. DO NOT EDIT.
 
-import type { Sql } from "postgres";
+import type { SQL } from "bun";
 
-export type AuthorStatus = "active" | "inactive" | "pending";
+import type { Author, AuthorStatus } from "./models";
 
 export interface GetAuthorArgs {
-    id: number;
+    id: string;
 }
 
-export interface GetAuthorRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
-}
-
-export async function getAuthor(sql: Sql, args: GetAuthorArgs): Promise<GetAuthorRow | null> {
-    const rows = await sql<GetAuthorRow[]> `SELECT id, name, bio, status FROM authors
-WHERE id = ${args.id} LIMIT 1`;
-    return rows[0] ?? null;
-}
-
-export interface ListAuthorsRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
+/**
+ * @sql
+ * ```sql
+ * SELECT id, name, bio, status FROM authors
+ * WHERE id = $1 LIMIT 1
+ * ```
+ */
+export async function getAuthor(sql: SQL, args: GetAuthorArgs): Promise<Author | null> {
+    const rows: any[][] = await sql `SELECT id, name, bio, status FROM authors
+WHERE id = ${args.id} LIMIT 1`.values();
+    const row = rows[0];
+    if (row === undefined) {
+        return null;
+    }
+    return {
+        id: row[0],
+        name: row[1],
+        bio: row[2],
+        status: row[3]
+    };
 }
 
-export async function listAuthors(sql: Sql): Promise<ListAuthorsRow[]> {
-    return await sql<ListAuthorsRow[]> `SELECT id, name, bio, status FROM authors
-ORDER BY name`;
+/**
+ * @sql
+ * ```sql
+ * SELECT id, name, bio, status FROM authors
+ * ORDER BY name
+ * ```
+ */
+export async function listAuthors(sql: SQL): Promise<Author[]> {
+    const rows: any[][] = await sql `SELECT id, name, bio, status FROM authors
+ORDER BY name`.values();
+    return rows.map(row => ({
+        id: row[0],
+        name: row[1],
+        bio: row[2],
+        status: row[3]
+    }));
 }
 
 export interface CreateAuthorArgs {
@@ -39,45 +54,72 @@ export interface CreateAuthorArgs {
     status: AuthorStatus;
 }
 
-export interface CreateAuthorRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
-}
-
-export async function createAuthor(sql: Sql, args: CreateAuthorArgs): Promise<CreateAuthorRow | null> {
-    const rows = await sql<CreateAuthorRow[]> `INSERT INTO authors (
+/**
+ * @sql
+ * ```sql
+ * INSERT INTO authors (
+ *   name, bio, status
+ * ) VALUES (
+ *   $1, $2, $3
+ * )
+ * RETURNING id, name, bio, status
+ * ```
+ */
+export async function createAuthor(sql: SQL, args: CreateAuthorArgs): Promise<Author | null> {
+    const rows: any[][] = await sql `INSERT INTO authors (
   name, bio, status
 ) VALUES (
   ${args.name}, ${args.bio}, ${args.status}
 )
-RETURNING id, name, bio, status`;
-    return rows[0] ?? null;
+RETURNING id, name, bio, status`.values();
+    const row = rows[0];
+    if (row === undefined) {
+        return null;
+    }
+    return {
+        id: row[0],
+        name: row[1],
+        bio: row[2],
+        status: row[3]
+    };
 }
 
 export interface ListAuthorsByStatusArgs {
     status: AuthorStatus;
 }
 
-export interface ListAuthorsByStatusRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
-}
-
-export async function listAuthorsByStatus(sql: Sql, args: ListAuthorsByStatusArgs): Promise<ListAuthorsByStatusRow[]> {
-    return await sql<ListAuthorsByStatusRow[]> `SELECT id, name, bio, status FROM authors
+/**
+ * @sql
+ * ```sql
+ * SELECT id, name, bio, status FROM authors
+ * WHERE status = $1
+ * ORDER BY name
+ * ```
+ */
+export async function listAuthorsByStatus(sql: SQL, args: ListAuthorsByStatusArgs): Promise<Author[]> {
+    const rows: any[][] = await sql `SELECT id, name, bio, status FROM authors
 WHERE status = ${args.status}
-ORDER BY name`;
+ORDER BY name`.values();
+    return rows.map(row => ({
+        id: row[0],
+        name: row[1],
+        bio: row[2],
+        status: row[3]
+    }));
 }
 
 export interface DeleteAuthorArgs {
-    id: number;
+    id: string;
 }
 
-export async function deleteAuthor(sql: Sql, args: DeleteAuthorArgs): Promise<void> {
+/**
+ * @sql
+ * ```sql
+ * DELETE FROM authors
+ * WHERE id = $1
+ * ```
+ */
+export async function deleteAuthor(sql: SQL, args: DeleteAuthorArgs): Promise<void> {
     await sql `DELETE FROM authors
 WHERE id = ${args.id}`;
 }
@@ -1,4 +1,4 @@
-import postgres from "postgres";
+import { SQL } from "bun";
 
 import {
   createAuthor,
@@ -8,7 +8,7 @@ import {
 } from "./db/query_sql";
 
 async function main() {
-  const sql = postgres(process.env["DATABASE_URL"] ?? "");
+  const sql = new SQL(process.env["DATABASE_URL"] ?? "");
 
   // Create an author
   const author = await createAuthor(sql, {
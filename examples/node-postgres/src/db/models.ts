@@ -0,0 +1,17 @@
+// Code generated by sqlc. DO NOT EDIT.
+
+export type AuthorStatus = "active" | "inactive" | "pending";
+
+export const authorStatusValues = ["active", "inactive", "pending"] as const;
+
+export function isAuthorStatus(value: unknown): value is AuthorStatus {
+    return authorStatusValues.includes(value as AuthorStatus);
+}
+
+export interface Author {
+    id: number;
+    name: string;
+    bio: string | null;
+    status: AuthorStatus;
+}
+
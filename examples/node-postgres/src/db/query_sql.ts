@@ -1,35 +1,37 @@
 // Code generated by sqlc. DO NOT EDIT.
 
-import type { Sql } from "postgres";
+import type { Sql, TransactionSql } from "postgres";
 
-export type AuthorStatus = "active" | "inactive" | "pending";
+import type { Author, AuthorStatus } from "./models";
 
-export interface GetAuthorArgs {
-    id: number;
-}
+type Client = Sql | TransactionSql;
 
-export interface GetAuthorRow {
+export interface GetAuthorArgs {
     id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
 }
 
-export async function getAuthor(sql: Sql, args: GetAuthorArgs): Promise<GetAuthorRow | null> {
-    const rows = await sql<GetAuthorRow[]> `SELECT id, name, bio, status FROM authors
+/**
+ * @sql
+ * ```sql
+ * SELECT id, name, bio, status FROM authors
+ * WHERE id = $1 LIMIT 1
+ * ```
+ */
+export async function getAuthor(sql: Client, args: GetAuthorArgs): Promise<Author | null> {
+    const rows = await sql<Author[]> `SELECT id, name, bio, status FROM authors
 WHERE id = ${args.id} LIMIT 1`;
     return rows[0] ?? null;
 }
 
-export interface ListAuthorsRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
-}
-
-export async function listAuthors(sql: Sql): Promise<ListAuthorsRow[]> {
-    return await sql<ListAuthorsRow[]> `SELECT id, name, bio, status FROM authors
+/**
+ * @sql
+ * ```sql
+ * SELECT id, name, bio, status FROM authors
+ * ORDER BY name
+ * ```
+ */
+export async function listAuthors(sql: Client): Promise<Author[]> {
+    return await sql<Author[]> `SELECT id, name, bio, status FROM authors
 ORDER BY name`;
 }
 
@@ -39,15 +41,19 @@ export interface CreateAuthorArgs {
     status: AuthorStatus;
 }
 
-export interface CreateAuthorRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
-}
-
-export async function createAuthor(sql: Sql, args: CreateAuthorArgs): Promise<CreateAuthorRow | null> {
-    const rows = await sql<CreateAuthorRow[]> `INSERT INTO authors (
+/**
+ * @sql
+ * ```sql
+ * INSERT INTO authors (
+ *   name, bio, status
+ * ) VALUES (
+ *   $1, $2, $3
+ * )
+ * RETURNING id, name, bio, status
+ * ```
+ */
+export async function createAuthor(sql: Client, args: CreateAuthorArgs): Promise<Author | null> {
+    const rows = await sql<Author[]> `INSERT INTO authors (
   name, bio, status
 ) VALUES (
   ${args.name}, ${args.bio}, ${args.status}
@@ -60,15 +66,16 @@ export interface ListAuthorsByStatusArgs {
     status: AuthorStatus;
 }
 
-export interface ListAuthorsByStatusRow {
-    id: number;
-    name: string;
-    bio: string | null;
-    status: AuthorStatus;
-}
-
-export async function listAuthorsByStatus(sql: Sql, args: ListAuthorsByStatusArgs): Promise<ListAuthorsByStatusRow[]> {
-    return await sql<ListAuthorsByStatusRow[]> `SELECT id, name, bio, status FROM authors
+/**
+ * @sql
+ * ```sql
+ * SELECT id, name, bio, status FROM authors
+ * WHERE status = $1
+ * ORDER BY name
+ * ```
+ */
+export async function listAuthorsByStatus(sql: Client, args: ListAuthorsByStatusArgs): Promise<Author[]> {
+    return await sql<Author[]> `SELECT id, name, bio, status FROM authors
 WHERE status = ${args.status}
 ORDER BY name`;
 }
@@ -77,7 +84,14 @@ export interface DeleteAuthorArgs {
     id: number;
 }
 
-export async function deleteAuthor(sql: Sql, args: DeleteAuthorArgs): Promise<void> {
+/**
+ * @sql
+ * ```sql
+ * DELETE FROM authors
+ * WHERE id = $1
+ * ```
+ */
+export async function deleteAuthor(sql: Client, args: DeleteAuthorArgs): Promise<void> {
     await sql `DELETE FROM authors
 WHERE id = ${args.id}`;
 }
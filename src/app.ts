@@ -1,21 +1,78 @@
 import { readFileSync, writeFileSync, STDIO } from "javy/fs";
 import {
   EmitHint,
+  FunctionDeclaration,
   NewLineKind,
   ScriptKind,
   ScriptTarget,
   SyntaxKind,
   Node,
+  TypeNode,
   createPrinter,
   createSourceFile,
   factory,
+  isFunctionDeclaration,
+  isImportDeclaration,
+  isSourceFile,
 } from "typescript";
 
-import { GenerateRequest, GenerateResponse, File, Enum } from "./gen/plugin/codegen_pb";
-
-import { argName, colName } from "./drivers/utils";
-import { assertUniqueNames } from "./validate";
+import {
+  GenerateRequest,
+  GenerateResponse,
+  File,
+  Column,
+  CompositeType,
+  Query,
+  Schema,
+} from "./gen/plugin/codegen_pb";
+
+import { Context } from "./context";
+import * as betterSqlite3 from "./drivers/better-sqlite3";
+import * as bunSql from "./drivers/bun-sql";
+import * as bunSqlite from "./drivers/bun-sqlite";
+import { Driver } from "./drivers/driver";
+import { GEOMETRY_FILE, geometryFileNodes } from "./drivers/geometry";
+import * as mysql2 from "./drivers/mysql2";
+import * as pg from "./drivers/pg";
 import * as postgres from "./drivers/postgres";
+import { RANGE_FILE, rangeFileNodes } from "./drivers/range";
+import {
+  argName,
+  catalogTypeName,
+  colName,
+  commentLines,
+  embeddedModel,
+  getCompositeName,
+  getEnumName,
+  isQueryAnnotation,
+  isStreamed,
+  optionalParam,
+  queryPrepare,
+  rowFieldName,
+  streamAnnotated,
+  withDoc,
+} from "./drivers/utils";
+import { enumDecls } from "./enums";
+import { buildJsonTypes } from "./jsontypes";
+import { MODELS_FILE, Model, buildModels, embedColumns, findModel, modelsByTable } from "./models";
+import { Options, TypeImport, parseOptions } from "./options";
+import { findOverride, importDecls, overrideType } from "./overrides";
+import {
+  PAGINATION_FILE,
+  Pagination,
+  cursorColumns,
+  cursorTypeDecl,
+  pageFunctionDecl,
+  pageQuery,
+  paginationFileNodes,
+  paginationImportDecl,
+  paginationTypeImports,
+  parsePagination,
+  unexported,
+} from "./pagination";
+import { QuerierMethod, querierDecls } from "./querier";
+import { SchemaField, schemaDecl, schemaImportDecls, validateArgs } from "./schemas";
+import { assertUniqueNames } from "./validate";
 
 // Read input from stdin
 const input = readInput();
@@ -25,65 +82,417 @@ const result = codegen(input);
 writeOutput(result);
 
 /**
- * Build a map of enum names to their values from the catalog.
- * This allows us to recognize enum types and generate appropriate TypeScript types.
+ * Build a map of user-defined type names (enums or composite types) to their
+ * definitions from the catalog, so columns of those types can be recognized.
  */
-function buildEnumMap(input: GenerateRequest): Map<string, Enum> {
-  const enumMap = new Map<string, Enum>();
-  const defaultSchema = input.catalog?.defaultSchema ?? "public";
+function buildTypeMap<T extends { name: string }>(
+  input: GenerateRequest,
+  defaultSchema: string,
+  types: (schema: Schema) => T[],
+): Map<string, T> {
+  const typeMap = new Map<string, T>();
 
   for (const schema of input.catalog?.schemas ?? []) {
     if (schema.name === "pg_catalog" || schema.name === "information_schema") {
       continue;
     }
 
-    for (const enumDef of schema.enums) {
-      // Store with both qualified and unqualified names
-      enumMap.set(enumDef.name, enumDef);
-      if (schema.name !== defaultSchema) {
-        enumMap.set(`${schema.name}.${enumDef.name}`, enumDef);
+    for (const def of types(schema)) {
+      // Types in other schemas are qualified so equal names do not collide
+      const name = def.name.toLowerCase();
+      if (schema.name === "" || schema.name === defaultSchema) {
+        typeMap.set(name, def);
+      } else {
+        typeMap.set(`${schema.name.toLowerCase()}.${name}`, def);
       }
     }
   }
 
-  return enumMap;
+  return typeMap;
 }
 
 /**
- * Generate TypeScript union type for an enum.
- * e.g., type EventSource = 'user' | 'runner' | 'system';
+ * Generate the type of a composite type. sqlc does not pass the fields of
+ * composite types to plugins, so values are typed as their record text form.
  */
-function enumTypeDecl(name: string, enumDef: Enum): Node {
-  const unionType = factory.createUnionTypeNode(
-    enumDef.vals.map((val) => factory.createLiteralTypeNode(factory.createStringLiteral(val))),
+function compositeTypeDecl(name: string, composite: CompositeType): Node {
+  const decl = factory.createTypeAliasDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword)],
+    factory.createIdentifier(catalogTypeName(name)),
+    undefined,
+    factory.createKeywordTypeNode(SyntaxKind.StringKeyword),
   );
+  return withDoc(decl, [
+    ...commentLines(composite.comment),
+    `Composite type ${name} in its text form, e.g. "(1,foo)"`,
+  ]);
+}
 
-  return factory.createTypeAliasDeclaration(
-    [factory.createToken(SyntaxKind.ExportKeyword)],
-    factory.createIdentifier(pascalCase(name)),
+/**
+ * The TSDoc of a query function: the comments of the query in the .sql file
+ * without the annotations of the generator, then the query in an @sql block so
+ * editors show it on hover.
+ */
+function queryDoc(query: Query): string[] {
+  // sqlc keeps the space after "--"
+  const comments = query.comments
+    .filter((line) => !isQueryAnnotation(line))
+    .map((line) => line.replace(/^ /, ""));
+  return [
+    ...comments,
+    ...(comments.length > 0 ? [""] : []),
+    "@sql",
+    "```sql",
+    ...query.text.split("\n"),
+    "```",
+  ];
+}
+
+/**
+ * Generate an interface property for a column, documented with the comment
+ * of the column in the catalog.
+ */
+function propertyDecl(
+  name: string,
+  type: TypeNode,
+  column: Column | undefined,
+  optional: boolean = false,
+) {
+  return withDoc(
+    factory.createPropertySignature(
+      undefined,
+      factory.createIdentifier(name),
+      optional ? factory.createToken(SyntaxKind.QuestionToken) : undefined,
+      type,
+    ),
+    commentLines(column?.comment ?? ""),
+  );
+}
+
+/**
+ * Generate an exported interface with a property per field.
+ */
+function interfaceDecl(name: string, fields: SchemaField[], exported = true, base?: string) {
+  return factory.createInterfaceDeclaration(
+    exported ? [factory.createToken(SyntaxKind.ExportKeyword)] : undefined,
+    factory.createIdentifier(name),
     undefined,
-    unionType,
+    base === undefined
+      ? undefined
+      : [
+          factory.createHeritageClause(SyntaxKind.ExtendsKeyword, [
+            factory.createExpressionWithTypeArguments(factory.createIdentifier(base), undefined),
+          ]),
+        ],
+    fields.map((field) => propertyDecl(field.name, field.type, field.column, field.optional)),
   );
 }
 
 /**
- * Convert snake_case to PascalCase
+ * Generate the validation schema of an interface if the validator option is
+ * set. Model schemas it references are added to `schemaImports`.
+ */
+function schemaNodes(
+  ctx: Context,
+  name: string,
+  fields: SchemaField[],
+  schemaImports: Set<string>,
+): Node[] {
+  if (ctx.options.validator === undefined) {
+    return [];
+  }
+  return [schemaDecl(ctx, ctx.options.validator, name, fields, schemaImports)];
+}
+
+/**
+ * Generate the page function of a query annotated with @paginate, together
+ * with its cursor type and the rewritten query it calls.
  */
-function pascalCase(str: string): string {
-  return str
-    .split("_")
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
-    .join("");
+function pageNodes(
+  ctx: Context,
+  driver: Driver,
+  engine: string,
+  filename: string,
+  query: Query,
+  pagination: Pagination,
+  argIface: string | undefined,
+  returnIface: string | undefined,
+  argFields: SchemaField[],
+  columns: Column[],
+  imports: TypeImport[],
+): { nodes: Node[]; decl: FunctionDeclaration; doc: string[] } {
+  if (returnIface === undefined) {
+    throw new Error("@paginate requires a query that returns columns");
+  }
+  const lowerName = queryName(ctx.options.functionName, query.name);
+  const cursor = cursorColumns(pagination, columns);
+  const page = pageQuery(engine, query, pagination, cursor);
+  const cursorTypes = page.added
+    .slice(0, cursor.length)
+    .map((param) => columnType(ctx, driver, param.column, imports));
+
+  // Arguments of the rewritten query: those of the query, then the page's
+  const pageArgsIface = queryName(ctx.options.argsTypeName, `${query.name}Page`);
+  const pageFields = page.added.map((param, i) => ({
+    name: argName(ctx, query.params.length + i, param.column),
+    type:
+      i < cursor.length
+        ? factory.createUnionTypeNode([
+            cursorTypes[i],
+            factory.createLiteralTypeNode(factory.createNull()),
+          ])
+        : factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    column: param.column,
+    optional: false,
+  }));
+  const fields = [...argFields, ...pageFields];
+  assertUniqueNames({
+    kind: "argument",
+    queryName: query.name,
+    fileName: filename,
+    names: fields.map((field) => field.name),
+  });
+
+  // Rows of the page query, with the text of its cursor columns if it selects them
+  const pageColumns = [...columns, ...page.columns];
+  const rowFields = page.columns.map((column, i) => ({
+    name: rowFieldName(ctx, columns.length + i, column),
+    type: columnType(ctx, driver, column, imports),
+    column,
+    optional: false,
+  }));
+  const pageRowIface = rowFields.length === 0 ? returnIface : `${query.name}PageRow`;
+  assertUniqueNames({
+    kind: "column",
+    queryName: query.name,
+    fileName: filename,
+    names: pageColumns.map((column, i) => rowFieldName(ctx, i, column)),
+  });
+
+  // The page query is a statement of its own
+  const rows = driver.manyDecl(
+    { ...ctx, statement: { name: `${query.name}PageRows`, prepare: ctx.statement?.prepare } },
+    queryName(ctx.options.functionName, `${query.name}PageRows`),
+    page.text,
+    pageArgsIface,
+    pageRowIface,
+    page.params,
+    pageColumns,
+  );
+  if (!isFunctionDeclaration(rows)) {
+    throw new Error(`driver "${ctx.options.driver}" does not generate :many functions`);
+  }
+  imports.push(...paginationTypeImports());
+
+  const cursorType = `${query.name}Cursor`;
+  const decl = pageFunctionDecl({
+    name: queryName(ctx.options.functionName, `${query.name}Page`),
+    rows,
+    limitArg: pageFields[cursor.length].name,
+    offsetArg: pageFields[cursor.length + 1]?.name,
+    argIface,
+    returnIface,
+    cursorType,
+    cursor: page.cursorValues.map((column, i) => ({
+      row: rowFieldName(ctx, pageColumns.indexOf(column), column),
+      arg: pageFields[i].name,
+      type: cursorTypes[i],
+    })),
+    cursorOnly: rowFields.map((field) => field.name),
+  });
+  return {
+    nodes: [
+      withDoc(cursorTypeDecl(cursorType, query.name), [
+        `Opaque cursor of ${query.name} pages; pass nextCursor back as it is.`,
+      ]),
+      interfaceDecl(pageArgsIface, fields, false),
+      ...(rowFields.length === 0
+        ? []
+        : [interfaceDecl(pageRowIface, rowFields, false, returnIface)]),
+      unexported(rows),
+    ],
+    decl,
+    doc: [
+      pagination.kind === "cursor"
+        ? `Read the rows of ${lowerName} a page at a time, ordered by ${pagination.columns.join(", ")}${pagination.descending ? " descending" : ""}.`
+        : `Read the rows of ${lowerName} a page at a time, by offset.`,
+    ],
+  };
+}
+
+/**
+ * Fill a name template of the options with the name of a query:
+ * {Name} is the name as written, {name} the same with a lowercase first letter.
+ */
+function queryName(template: string, name: string): string {
+  return template
+    .replace(/\{Name\}/g, name)
+    .replace(/\{name\}/g, name[0].toLowerCase() + name.slice(1));
+}
+
+function createDriver(options: Options): Driver {
+  switch (options.driver) {
+    case "postgres":
+      return postgres;
+    case "bun-sql":
+      return bunSql;
+    case "pg":
+      return pg;
+    case "mysql2":
+      return mysql2;
+    case "better-sqlite3":
+      return betterSqlite3;
+    case "bun-sqlite":
+      return bunSqlite;
+  }
+}
+
+/**
+ * The TypeScript type of a column: the configured override if one matches,
+ * otherwise the driver's mapping. Imports needed by the type, from overrides,
+ * of enums in the models file or requested by the driver, are added to `imports`.
+ * sqlc.slice() parameters take a list of values of the column type.
+ */
+function columnType(
+  ctx: Context,
+  driver: Driver,
+  column: Column | undefined,
+  imports: TypeImport[],
+): TypeNode {
+  const typ = valueType(ctx, driver, column, imports);
+  if (!column?.isSqlcSlice) {
+    return typ;
+  }
+  return factory.createArrayTypeNode(
+    typ.kind === SyntaxKind.UnionType ? factory.createParenthesizedType(typ) : typ,
+  );
+}
+
+/**
+ * The type of a Row property: the model of a sqlc.embed() column, null when it
+ * comes from an outer join, otherwise the column type.
+ */
+function rowFieldType(
+  ctx: Context,
+  driver: Driver,
+  column: Column,
+  imports: TypeImport[],
+): TypeNode {
+  const model = embeddedModel(ctx, column);
+  if (model === undefined) {
+    return columnType(ctx, driver, column, imports);
+  }
+  imports.push({ from: `./${MODELS_FILE}`, name: model.name, default: false });
+  const typ = factory.createTypeReferenceNode(factory.createIdentifier(model.name), undefined);
+  if (column.notNull) {
+    return typ;
+  }
+  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+}
+
+function valueType(
+  ctx: Context,
+  driver: Driver,
+  column: Column | undefined,
+  imports: TypeImport[],
+): TypeNode {
+  const override = findOverride(ctx.options.overrides, column);
+  if (override === undefined || column === undefined) {
+    const typeName = getEnumName(ctx, column) ?? getCompositeName(ctx, column);
+    if (typeName !== null) {
+      imports.push({ from: `./${MODELS_FILE}`, name: catalogTypeName(typeName), default: false });
+    }
+    if (column !== undefined && driver.columnImports !== undefined) {
+      imports.push(...driver.columnImports(ctx, column));
+    }
+    return driver.columnType(ctx, column);
+  }
+  if (override.import !== undefined) {
+    imports.push(override.import);
+  }
+  return overrideType(override, column);
+}
+
+/**
+ * Generate models.ts: every enum and composite type in the catalog, then one
+ * interface per table. Imports needed by the models are added to `imports`.
+ * Query files import both from it, so each type is declared once.
+ */
+function modelsFileNodes(
+  ctx: Context,
+  driver: Driver,
+  models: Model[],
+  imports: TypeImport[],
+): Node[] {
+  const interfaces: Node[] = [];
+  // Model schemas do not reference each other
+  const schemaImports = new Set<string>();
+
+  for (const model of models) {
+    const table = model.table.rel?.name ?? model.name;
+    const names = model.columns.map((column, i) => colName(ctx, i, column));
+    assertUniqueNames({ kind: "column", queryName: model.name, fileName: MODELS_FILE, names });
+
+    try {
+      const fields = model.columns.map((column, i) => ({
+        name: colName(ctx, i, column),
+        type: columnType(ctx, driver, column, imports),
+        column,
+        optional: false,
+      }));
+      interfaces.push(
+        withDoc(interfaceDecl(model.name, fields), commentLines(model.table.comment)),
+        ...schemaNodes(ctx, model.name, fields, schemaImports),
+      );
+    } catch (err) {
+      throw new Error(
+        `Error in table "${table}": ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  const enumNodes = [...ctx.enums].flatMap(([enumName, enumDef]) =>
+    enumDecls(enumName, enumDef, ctx.options.emitEnumObjects),
+  );
+  const compositeNodes = [...ctx.composites].map(([name, composite]) =>
+    compositeTypeDecl(name, composite),
+  );
+  // Enums are declared in this file rather than imported
+  const external = imports.filter((imp) => imp.from !== `./${MODELS_FILE}`);
+
+  const schemaImportNodes =
+    ctx.options.validator !== undefined && models.length > 0
+      ? schemaImportDecls(ctx.options.validator, schemaImports)
+      : [];
+
+  return [
+    ...importDecls(external),
+    ...schemaImportNodes,
+    ...enumNodes,
+    ...compositeNodes,
+    ...interfaces,
+  ];
 }
 
 function codegen(input: GenerateRequest): GenerateResponse {
   const files = [];
-  const enumMap = buildEnumMap(input);
-
-  // Set the enum map in the postgres driver so columnType can use it
-  postgres.setEnumMap(enumMap);
+  const defaultSchema = input.catalog?.defaultSchema || "public";
+  const engine = input.settings?.engine || "postgresql";
+  const options = parseOptions(input.pluginOptions, engine);
+  const models = buildModels(input.catalog, options);
+  const ctx: Context = {
+    options,
+    defaultSchema,
+    enums: buildTypeMap(input, defaultSchema, (schema) => schema.enums),
+    composites: buildTypeMap(input, defaultSchema, (schema) => schema.compositeTypes),
+    jsonTypes: buildJsonTypes(input.catalog, defaultSchema),
+    models: modelsByTable(models),
+  };
+  const driver = createDriver(ctx.options);
 
   const querymap = new Map<string, typeof input.queries>();
+  // Type imports of every generated file, to know which helper modules are needed
+  const usedImports: TypeImport[] = [];
 
   for (const query of input.queries) {
     if (!querymap.has(query.filename)) {
@@ -93,24 +502,29 @@ function codegen(input: GenerateRequest): GenerateResponse {
     qs?.push(query);
   }
 
-  // Track which enums are used across all files
-  const usedEnums = new Set<string>();
-
   for (const [filename, queries] of querymap.entries()) {
-    const nodes: Node[] = [...postgres.preamble()];
-
-    // Track enums used in this file
-    const fileEnums = new Set<string>();
+    const nodes: Node[] = [];
+
+    // Track the type imports used in this file
+    const fileImports: TypeImport[] = [];
+    // Query functions the Queries class wraps
+    const querierMethods: QuerierMethod[] = [];
+    // Validation schemas of this file, and the model schemas they reference
+    const schemas: Node[] = [];
+    const schemaImports = new Set<string>();
+    // Whether a query of this file has a page function
+    let paginated = false;
 
     for (const query of queries) {
-      const lowerName = query.name[0].toLowerCase() + query.name.slice(1);
+      const lowerName = queryName(ctx.options.functionName, query.name);
 
       let argIface = undefined;
       let returnIface = undefined;
+      let argFields: SchemaField[] = [];
 
       if (query.params.length > 0) {
-        argIface = `${query.name}Args`;
-        const names = query.params.map((param, i) => argName(i, param.column));
+        argIface = queryName(ctx.options.argsTypeName, query.name);
+        const names = query.params.map((param, i) => argName(ctx, i, param.column));
         assertUniqueNames({
           kind: "argument",
           queryName: query.name,
@@ -118,32 +532,16 @@ function codegen(input: GenerateRequest): GenerateResponse {
           names,
         });
 
-        // Check for enum usage in params
-        for (const param of query.params) {
-          const enumName = postgres.getEnumName(param.column);
-          if (enumName) {
-            fileEnums.add(enumName);
-            usedEnums.add(enumName);
-          }
-        }
-
         try {
-          nodes.push(
-            factory.createInterfaceDeclaration(
-              [factory.createToken(SyntaxKind.ExportKeyword)],
-              factory.createIdentifier(argIface),
-              undefined,
-              undefined,
-              query.params.map((param, i) =>
-                factory.createPropertySignature(
-                  undefined,
-                  factory.createIdentifier(argName(i, param.column)),
-                  undefined,
-                  postgres.columnType(param.column),
-                ),
-              ),
-            ),
-          );
+          argFields = query.params.map((param, i) => ({
+            name: argName(ctx, i, param.column),
+            type: columnType(ctx, driver, param.column, fileImports),
+            column: param.column,
+            optional: optionalParam(ctx, param),
+          }));
+          const schema = schemaNodes(ctx, argIface, argFields, schemaImports);
+          schemas.push(...schema);
+          nodes.push(interfaceDecl(argIface, argFields), ...schema);
         } catch (err) {
           throw new Error(
             `Error in query "${query.name}" (${filename}): ${err instanceof Error ? err.message : String(err)}`,
@@ -151,9 +549,15 @@ function codegen(input: GenerateRequest): GenerateResponse {
         }
       }
 
-      if (query.columns.length > 0) {
-        returnIface = `${query.name}Row`;
-        const names = query.columns.map((column, i) => colName(i, column));
+      const columns = embedColumns(query);
+      const model = findModel(models, defaultSchema, columns);
+      if (model !== undefined) {
+        // The query returns whole table rows: use the model instead of a Row interface
+        returnIface = model.name;
+        fileImports.push({ from: `./${MODELS_FILE}`, name: model.name, default: false });
+      } else if (columns.length > 0) {
+        returnIface = queryName(ctx.options.rowTypeName, query.name);
+        const names = columns.map((column, i) => rowFieldName(ctx, i, column));
         assertUniqueNames({
           kind: "column",
           queryName: query.name,
@@ -161,32 +565,16 @@ function codegen(input: GenerateRequest): GenerateResponse {
           names,
         });
 
-        // Check for enum usage in columns
-        for (const col of query.columns) {
-          const enumName = postgres.getEnumName(col);
-          if (enumName) {
-            fileEnums.add(enumName);
-            usedEnums.add(enumName);
-          }
-        }
-
         try {
-          nodes.push(
-            factory.createInterfaceDeclaration(
-              [factory.createToken(SyntaxKind.ExportKeyword)],
-              factory.createIdentifier(returnIface),
-              undefined,
-              undefined,
-              query.columns.map((column, i) =>
-                factory.createPropertySignature(
-                  undefined,
-                  factory.createIdentifier(colName(i, column)),
-                  undefined,
-                  postgres.columnType(column),
-                ),
-              ),
-            ),
-          );
+          const fields = columns.map((column, i) => ({
+            name: rowFieldName(ctx, i, column),
+            type: rowFieldType(ctx, driver, column, fileImports),
+            column,
+            optional: false,
+          }));
+          const schema = schemaNodes(ctx, returnIface, fields, schemaImports);
+          schemas.push(...schema);
+          nodes.push(interfaceDecl(returnIface, fields), ...schema);
         } catch (err) {
           throw new Error(
             `Error in query "${query.name}" (${filename}): ${err instanceof Error ? err.message : String(err)}`,
@@ -194,57 +582,236 @@ function codegen(input: GenerateRequest): GenerateResponse {
         }
       }
 
+      // Batch and copy commands take an array of Args, so they need parameters
+      const batchIface = (): string => {
+        if (argIface === undefined) {
+          throw new Error(
+            `Error in query "${query.name}" (${filename}): ${query.cmd} requires at least one parameter`,
+          );
+        }
+        return argIface;
+      };
+
+      // Drivers only implement the commands their client library can support
+      const unsupported = () =>
+        new Error(
+          `Error in query "${query.name}" (${filename}): driver "${ctx.options.driver}" does not support ${query.cmd}`,
+        );
+
+      // Drivers generate the query as the statement it is sent as
+      let prepare: boolean | undefined;
+      try {
+        prepare = queryPrepare(ctx, query);
+      } catch (err) {
+        throw new Error(
+          `Error in query "${query.name}" (${filename}): ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+      if (prepare !== undefined && !driver.supportsPrepare(prepare)) {
+        throw new Error(
+          `Error in query "${query.name}" (${filename}): driver "${ctx.options.driver}" does not support ${prepare ? "prepared" : "unprepared"} statements`,
+        );
+      }
+      const queryCtx: Context = { ...ctx, statement: { name: query.name, prepare } };
+
+      let decl: Node;
       switch (query.cmd) {
         case ":exec": {
-          nodes.push(postgres.execDecl(lowerName, query.text, argIface, query.params));
+          decl = driver.execDecl(queryCtx, lowerName, query.text, argIface, query.params);
           break;
         }
         case ":execlastid": {
-          nodes.push(postgres.execlastidDecl(lowerName, query.text, argIface, query.params));
+          decl = driver.execlastidDecl(queryCtx, lowerName, query.text, argIface, query.params);
+          break;
+        }
+        case ":execrows": {
+          if (driver.execrowsDecl === undefined) {
+            throw unsupported();
+          }
+          decl = driver.execrowsDecl(queryCtx, lowerName, query.text, argIface, query.params);
+          break;
+        }
+        case ":execresult": {
+          if (driver.execresultDecl === undefined) {
+            throw unsupported();
+          }
+          decl = driver.execresultDecl(queryCtx, lowerName, query.text, argIface, query.params);
           break;
         }
         case ":one": {
-          nodes.push(
-            postgres.oneDecl(
-              lowerName,
-              query.text,
-              argIface,
-              returnIface ?? "void",
-              query.params,
-              query.columns,
-            ),
+          decl = driver.oneDecl(
+            queryCtx,
+            lowerName,
+            query.text,
+            argIface,
+            returnIface ?? "void",
+            query.params,
+            columns,
           );
           break;
         }
         case ":many": {
-          nodes.push(
-            postgres.manyDecl(
-              lowerName,
-              query.text,
-              argIface,
-              returnIface ?? "void",
-              query.params,
-              query.columns,
-            ),
+          decl = driver.manyDecl(
+            queryCtx,
+            lowerName,
+            query.text,
+            argIface,
+            returnIface ?? "void",
+            query.params,
+            columns,
           );
           break;
         }
+        case ":batchexec": {
+          if (driver.batchexecDecl === undefined) {
+            throw unsupported();
+          }
+          decl = driver.batchexecDecl(queryCtx, lowerName, query.text, batchIface(), query.params);
+          break;
+        }
+        case ":batchone": {
+          if (driver.batchoneDecl === undefined) {
+            throw unsupported();
+          }
+          decl = driver.batchoneDecl(
+            queryCtx,
+            lowerName,
+            query.text,
+            batchIface(),
+            returnIface ?? "void",
+            query.params,
+            columns,
+          );
+          break;
+        }
+        case ":batchmany": {
+          if (driver.batchmanyDecl === undefined) {
+            throw unsupported();
+          }
+          decl = driver.batchmanyDecl(
+            queryCtx,
+            lowerName,
+            query.text,
+            batchIface(),
+            returnIface ?? "void",
+            query.params,
+            columns,
+          );
+          break;
+        }
+        case ":copyfrom": {
+          if (query.insertIntoTable === undefined) {
+            throw new Error(
+              `Error in query "${query.name}" (${filename}): :copyfrom requires an INSERT INTO query`,
+            );
+          }
+          if (driver.copyfromDecl === undefined) {
+            throw unsupported();
+          }
+          decl = driver.copyfromDecl(
+            queryCtx,
+            lowerName,
+            query.insertIntoTable,
+            batchIface(),
+            query.params,
+          );
+          break;
+        }
+        default: {
+          throw new Error(
+            `Error in query "${query.name}" (${filename}): unsupported command "${query.cmd}"`,
+          );
+        }
+      }
+      // Query functions are validated, documented and bound by the Queries class alike
+      const pushDecl = (queryDecl: Node, doc: string[]) => {
+        if (
+          ctx.options.validateArgs &&
+          ctx.options.validator !== undefined &&
+          argIface !== undefined &&
+          isFunctionDeclaration(queryDecl)
+        ) {
+          queryDecl = validateArgs(ctx.options.validator, queryDecl, argIface);
+        }
+        nodes.push(withDoc(queryDecl, doc));
+        if (isFunctionDeclaration(queryDecl)) {
+          querierMethods.push({ decl: queryDecl, doc });
+        }
+      };
+      pushDecl(decl, queryDoc(query));
+
+      try {
+        const pagination = parsePagination(query);
+        if (pagination !== undefined) {
+          const page = pageNodes(
+            queryCtx,
+            driver,
+            engine,
+            filename,
+            query,
+            pagination,
+            argIface,
+            returnIface,
+            argFields,
+            columns,
+            fileImports,
+          );
+          nodes.push(...page.nodes);
+          pushDecl(page.decl, page.doc);
+          paginated = true;
+        }
+      } catch (err) {
+        throw new Error(
+          `Error in query "${query.name}" (${filename}): ${err instanceof Error ? err.message : String(err)}`,
+        );
       }
-    }
 
-    // Add enum type declarations at the beginning of the file (after imports)
-    const enumNodes: Node[] = [];
-    for (const enumName of fileEnums) {
-      const enumDef = enumMap.get(enumName);
-      if (enumDef) {
-        enumNodes.push(enumTypeDecl(enumName, enumDef));
+      if (streamAnnotated(query) && query.cmd !== ":many") {
+        throw new Error(
+          `Error in query "${query.name}" (${filename}): @stream requires :many; got ${query.cmd}`,
+        );
       }
+      if (isStreamed(ctx, query)) {
+        if (driver.streamDecl === undefined) {
+          throw new Error(
+            `Error in query "${query.name}" (${filename}): driver "${ctx.options.driver}" does not support stream functions`,
+          );
+        }
+        const streamDecl = driver.streamDecl(
+          queryCtx,
+          queryName(ctx.options.functionName, `${query.name}Stream`),
+          query.text,
+          argIface,
+          returnIface ?? "void",
+          query.params,
+          columns,
+        );
+        pushDecl(streamDecl, [
+          `Read the rows of ${lowerName} in batches of up to batchSize rows, without holding the whole result in memory.`,
+        ]);
+      }
+    }
+
+    if (ctx.options.emitQuerier) {
+      nodes.push(...querierDecls(querierMethods));
     }
 
-    // Insert enum declarations after the preamble (imports)
-    const preambleLength = postgres.preamble().length;
-    nodes.splice(preambleLength, 0, ...enumNodes);
+    // Type imports go after the driver's imports, before its helpers
+    const preamble = driver.preamble(ctx, queries);
+    const importCount = preamble.filter(isImportDeclaration).length;
+    const schemaImportNodes =
+      ctx.options.validator !== undefined && schemas.length > 0
+        ? schemaImportDecls(ctx.options.validator, schemaImports)
+        : [];
+    nodes.unshift(
+      ...preamble.slice(0, importCount),
+      ...importDecls(fileImports),
+      ...schemaImportNodes,
+      ...(paginated ? [paginationImportDecl()] : []),
+      ...preamble.slice(importCount),
+    );
 
+    usedImports.push(...fileImports);
     files.push(
       new File({
         name: `${filename.replace(".", "_")}.ts`,
@@ -253,6 +820,35 @@ function codegen(input: GenerateRequest): GenerateResponse {
     );
   }
 
+  if (models.length > 0 || ctx.enums.size > 0 || ctx.composites.size > 0) {
+    const modelImports: TypeImport[] = [];
+    const nodes = modelsFileNodes(ctx, driver, models, modelImports);
+    usedImports.push(...modelImports);
+    files.push(
+      new File({
+        name: `${MODELS_FILE}.ts`,
+        contents: new TextEncoder().encode(printNode(nodes)),
+      }),
+    );
+  }
+
+  // Helper modules, written when a file imports from them
+  const helperModules: [string, () => Node[]][] = [
+    [GEOMETRY_FILE, geometryFileNodes],
+    [RANGE_FILE, rangeFileNodes],
+    [PAGINATION_FILE, paginationFileNodes],
+  ];
+  for (const [name, helperNodes] of helperModules) {
+    if (usedImports.some((imp) => imp.from === `./${name}`)) {
+      files.push(
+        new File({
+          name: `${name}.ts`,
+          contents: new TextEncoder().encode(printNode(helperNodes())),
+        }),
+      );
+    }
+  }
+
   return new GenerateResponse({
     files: files,
   });
@@ -275,7 +871,12 @@ function printNode(nodes: Node[]): string {
   const printer = createPrinter({ newLine: NewLineKind.LineFeed });
   let output = "// Code generated by sqlc. DO NOT EDIT.\n\n";
   for (const node of nodes) {
-    output += printer.printNode(EmitHint.Unspecified, node, resultFile);
+    // Handwritten helpers are parsed into their own source file and printed whole
+    if (isSourceFile(node)) {
+      output += printer.printFile(node).trimEnd();
+    } else {
+      output += printer.printNode(EmitHint.Unspecified, node, resultFile);
+    }
     output += "\n\n";
   }
   return output;
@@ -0,0 +1,34 @@
+import { CompositeType, Enum } from "./gen/plugin/codegen_pb";
+import { Model } from "./models";
+import { Options } from "./options";
+
+/**
+ * The statement a query is sent as: named after the query, and prepared or
+ * not. `prepare` is undefined when the client decides, as it does by default.
+ */
+export interface QueryStatement {
+  name: string;
+  prepare: boolean | undefined;
+}
+
+/**
+ * State shared by every generation step for a single GenerateRequest.
+ * Built once in codegen() and passed explicitly to the driver functions.
+ */
+export interface Context {
+  options: Options;
+  // Schema that unqualified names refer to
+  defaultSchema: string;
+  // Map of enum names to their definitions; enums outside the default schema
+  // are keyed by their schema-qualified name
+  enums: Map<string, Enum>;
+  // Map of composite type names to their definitions, keyed like enums
+  composites: Map<string, CompositeType>;
+  // Map of "schema.table.column" to the TypeScript type of json and jsonb
+  // columns declared with @type in catalog comments
+  jsonTypes: Map<string, string>;
+  // Map of "schema.table" to the model of the table, for sqlc.embed() columns
+  models: Map<string, Model>;
+  // The statement of the query being generated; codegen() sets it for each query
+  statement?: QueryStatement;
+}
@@ -0,0 +1,130 @@
+/**
+ * better-sqlite3 driver for sqlc-gen-typescript
+ *
+ * Generates code that prepares the query text with its ? placeholders
+ * unchanged and binds the arguments positionally. Result rows are read in raw
+ * mode and mapped onto the Row interfaces by position; see ./sqlite for the
+ * generation both SQLite drivers share.
+ *
+ * better-sqlite3 is synchronous; the generated functions are still async so
+ * they share a signature with the other drivers.
+ */
+
+import { TypeNode, factory, Expression } from "typescript";
+
+import { Context } from "../context";
+import { Parameter, Column, Query } from "../gen/plugin/codegen_pb";
+import * as sqlite from "./sqlite";
+import { ExecArgs, RowsArgs, SqliteClient } from "./sqlite";
+import { sqliteInt64Decoder } from "./sqlitetypes";
+import { placeholderValues, streamFuncDecl, yieldBatchesStatements } from "./utils";
+
+// Generate: stmt.raw(true).<method>(args.a, args.b, ...)
+function rawCall(method: "get" | "all" | "iterate", args: Expression[]): Expression {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier("stmt"),
+          factory.createIdentifier("raw"),
+        ),
+        undefined,
+        [factory.createTrue()],
+      ),
+      factory.createIdentifier(method),
+    ),
+    undefined,
+    args,
+  );
+}
+
+const client: SqliteClient = {
+  module: "better-sqlite3",
+  resultType: "RunResult",
+  blob: "Buffer",
+  // Generate: database.prepare(`SELECT ...`)
+  // With int64 set to bigint or string the statement reads integers as bigint:
+  //   database.prepare(`SELECT ...`).safeIntegers(true)
+  prepare(ctx, text) {
+    const stmt = factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createIdentifier("database"),
+        factory.createIdentifier("prepare"),
+      ),
+      undefined,
+      [text],
+    );
+    if (ctx.options.int64 !== "bigint" && ctx.options.int64 !== "string") {
+      return stmt;
+    }
+    return factory.createCallExpression(
+      factory.createPropertyAccessExpression(stmt, factory.createIdentifier("safeIntegers")),
+      undefined,
+      [factory.createTrue()],
+    );
+  },
+  rawRows: rawCall,
+};
+
+export function columnType(ctx: Context, column?: Column): TypeNode {
+  return sqlite.columnType(client, ctx, column);
+}
+
+export const supportsPrepare = sqlite.supportsPrepare;
+
+export function preamble(_ctx: Context, queries: Query[]) {
+  return sqlite.preamble(client, queries);
+}
+
+export function execDecl(...args: ExecArgs) {
+  return sqlite.execDecl(client, ...args);
+}
+
+export function execlastidDecl(...args: ExecArgs) {
+  return sqlite.execlastidDecl(client, ...args);
+}
+
+export function execrowsDecl(...args: ExecArgs) {
+  return sqlite.execrowsDecl(client, ...args);
+}
+
+export function execresultDecl(...args: ExecArgs) {
+  return sqlite.execresultDecl(client, ...args);
+}
+
+export function manyDecl(...args: RowsArgs) {
+  return sqlite.manyDecl(client, ...args);
+}
+
+export function oneDecl(...args: RowsArgs) {
+  return sqlite.oneDecl(client, ...args);
+}
+
+export function streamDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   const stmt = database.prepare(`...`);
+  //   let rows: any[][] = [];
+  //   for await (const row of stmt.raw(true).iterate(...) as IterableIterator<any[]>) { ... }
+  return streamFuncDecl(funcName, "database", "Database", argIface, returnIface, params, [
+    sqlite.stmtDecl(client, ctx, queryText, params),
+    ...yieldBatchesStatements(
+      ctx,
+      factory.createAsExpression(
+        rawCall("iterate", placeholderValues(ctx, params)),
+        factory.createTypeReferenceNode(factory.createIdentifier("IterableIterator"), [
+          sqlite.anyRowType(),
+        ]),
+      ),
+      columns,
+      sqliteInt64Decoder(ctx),
+    ),
+  ]);
+}
@@ -0,0 +1,261 @@
+/**
+ * Bun SQL driver for sqlc-gen-typescript
+ *
+ * Generates code using the tagged template literal of Bun's built-in SQL client
+ * (Bun 1.2+), so no npm database package is needed.
+ *
+ * Bun SQL has no column name transform, so rows are fetched with `.values()`
+ * and mapped onto the Row interfaces by position. With the default connection
+ * options Bun returns int8/bigint and numeric values as strings.
+ */
+
+import { SyntaxKind, NodeFlags, TypeNode, factory, FunctionDeclaration } from "typescript";
+
+import { Context } from "../context";
+import { Parameter, Column, Query } from "../gen/plugin/codegen_pb";
+import { TypeImport } from "../options";
+import {
+  pgColumnImports,
+  pgHelperImports,
+  pgColumnType,
+  pgParamEncoder,
+  pgRowDecoder,
+} from "./pgtypes";
+import { firstRowStatements, funcParamsDecl, mapRowsExpr, sliceTaggedTemplate } from "./utils";
+
+export function columnType(ctx: Context, column?: Column): TypeNode {
+  return pgColumnType(ctx, column, { int8: ctx.options.int64 ?? "string" });
+}
+
+export function columnImports(ctx: Context, column: Column): TypeImport[] {
+  return pgColumnImports(ctx, column);
+}
+
+// Bun SQL only prepares statements per connection, with its `prepare` option
+export function supportsPrepare(_prepare: boolean): boolean {
+  return false;
+}
+
+export function preamble(ctx: Context, queries: Query[]) {
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        true, // type-only import
+        undefined,
+        factory.createNamedImports([
+          factory.createImportSpecifier(false, undefined, factory.createIdentifier("SQL")),
+        ]),
+      ),
+      factory.createStringLiteral("bun"),
+      undefined,
+    ),
+    ...pgHelperImports(ctx, queries),
+  ];
+}
+
+/**
+ * Generate: const rows: any[][] = await sql`SELECT ...`.values();
+ */
+function rowsDecl(ctx: Context, queryText: string, params: Parameter[]) {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [
+        factory.createVariableDeclaration(
+          factory.createIdentifier("rows"),
+          undefined,
+          factory.createArrayTypeNode(
+            factory.createArrayTypeNode(factory.createKeywordTypeNode(SyntaxKind.AnyKeyword)),
+          ),
+          factory.createAwaitExpression(
+            factory.createCallExpression(
+              factory.createPropertyAccessExpression(
+                sliceTaggedTemplate(ctx, queryText, params, pgParamEncoder(ctx)),
+                factory.createIdentifier("values"),
+              ),
+              undefined,
+              undefined,
+            ),
+          ),
+        ),
+      ],
+      NodeFlags.Const,
+    ),
+  );
+}
+
+export function execDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  const funcParams = funcParamsDecl("sql", "SQL", argIface, params);
+
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createKeywordTypeNode(SyntaxKind.VoidKeyword),
+    ]),
+    factory.createBlock(
+      [
+        factory.createExpressionStatement(
+          factory.createAwaitExpression(
+            sliceTaggedTemplate(ctx, queryText, params, pgParamEncoder(ctx)),
+          ),
+        ),
+      ],
+      true,
+    ),
+  );
+}
+
+export function manyDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  const funcParams = funcParamsDecl("sql", "SQL", argIface, params);
+
+  // Generate:
+  //   const rows: any[][] = await sql`SELECT ...`.values();
+  //   return rows.map((row) => ({ ... }));
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createArrayTypeNode(
+        factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+      ),
+    ]),
+    factory.createBlock(
+      [
+        rowsDecl(ctx, queryText, params),
+        factory.createReturnStatement(
+          mapRowsExpr(ctx, factory.createIdentifier("rows"), columns, pgRowDecoder(ctx, "string")),
+        ),
+      ],
+      true,
+    ),
+  );
+}
+
+export function oneDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  const funcParams = funcParamsDecl("sql", "SQL", argIface, params);
+
+  // Generate:
+  //   const rows: any[][] = await sql`SELECT ...`.values();
+  //   const row = rows[0];
+  //   if (row === undefined) { return null; }
+  //   return { ... };
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createUnionTypeNode([
+        factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+        factory.createLiteralTypeNode(factory.createNull()),
+      ]),
+    ]),
+    factory.createBlock(
+      [
+        rowsDecl(ctx, queryText, params),
+        ...firstRowStatements(
+          ctx,
+          factory.createElementAccessExpression(
+            factory.createIdentifier("rows"),
+            factory.createNumericLiteral("0"),
+          ),
+          columns,
+          pgRowDecoder(ctx, "string"),
+        ),
+      ],
+      true,
+    ),
+  );
+}
+
+export function execlastidDecl(
+  _ctx: Context,
+  _funcName: string,
+  _queryText: string,
+  _argIface: string | undefined,
+  _params: Parameter[],
+): FunctionDeclaration {
+  throw new Error("bun-sql driver does not support :execlastid");
+}
+
+export function execrowsDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  const funcParams = funcParamsDecl("sql", "SQL", argIface, params);
+
+  // Generate:
+  //   const result = await sql`UPDATE ...`;
+  //   return result.count;
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    ]),
+    factory.createBlock(
+      [
+        factory.createVariableStatement(
+          undefined,
+          factory.createVariableDeclarationList(
+            [
+              factory.createVariableDeclaration(
+                factory.createIdentifier("result"),
+                undefined,
+                undefined,
+                factory.createAwaitExpression(
+                  sliceTaggedTemplate(ctx, queryText, params, pgParamEncoder(ctx)),
+                ),
+              ),
+            ],
+            NodeFlags.Const,
+          ),
+        ),
+        factory.createReturnStatement(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("result"),
+            factory.createIdentifier("count"),
+          ),
+        ),
+      ],
+      true,
+    ),
+  );
+}
@@ -0,0 +1,66 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, it } from "bun:test";
+
+import { Context } from "../context";
+import { Column, Identifier, Query } from "../gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS } from "../options";
+import { importNodes } from "../testing";
+import { preamble, streamDecl } from "./bun-sqlite";
+
+const ctx: Context = {
+  options: DEFAULT_OPTIONS,
+  defaultSchema: "main",
+  enums: new Map(),
+  composites: new Map(),
+  jsonTypes: new Map(),
+  models: new Map(),
+};
+
+describe("streamDecl", () => {
+  const column = (name: string, type = "INTEGER") =>
+    new Column({ name, notNull: true, type: new Identifier({ name: type }) });
+
+  it("yields the rows in batches", async () => {
+    const columns = [column("name", "TEXT"), column("1"), column("id")];
+    const text = "SELECT name, 1, id FROM authors ORDER BY id";
+    const query = new Query({ name: "ListAuthors", cmd: ":many", text, columns });
+    const { listAuthorsStream } = await importNodes<{
+      listAuthorsStream: (database: Database, batchSize: number) => AsyncGenerator<unknown[]>;
+    }>(
+      [
+        ...preamble(ctx, [query]),
+        streamDecl(ctx, "listAuthorsStream", text, undefined, "Author", [], columns),
+      ],
+      "stream.ts",
+    );
+    const database = new Database(":memory:");
+    database.run("CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT NOT NULL)");
+    database.run("INSERT INTO authors (name) VALUES ('a'), ('b'), ('c')");
+    const batches: unknown[][] = [];
+    for await (const batch of listAuthorsStream(database, 2)) {
+      batches.push(batch);
+    }
+    // The values are read by name: Object.values() would put column "1" first
+    expect(batches).toEqual([
+      [
+        { name: "a", 1: 1, id: 1 },
+        { name: "b", 1: 1, id: 2 },
+      ],
+      [{ name: "c", 1: 1, id: 3 }],
+    ]);
+  });
+
+  it("rejects repeated column names", () => {
+    expect(() =>
+      streamDecl(
+        ctx,
+        "f",
+        "SELECT id, id FROM t",
+        undefined,
+        "Row",
+        [],
+        [column("id"), column("id")],
+      ),
+    ).toThrow('column "id" appears more than once');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * bun:sqlite driver for sqlc-gen-typescript
+ *
+ * Generates code against Bun's built-in SQLite client. Queries are compiled
+ * and cached with `database.query()`, arguments are bound positionally to the
+ * ? placeholders and result rows are read with `.values()` and mapped onto the
+ * Row interfaces by position; see ./sqlite for the generation both SQLite
+ * drivers share.
+ *
+ * bun:sqlite is synchronous; the generated functions are still async so they
+ * share a signature with the other drivers.
+ *
+ * Stream functions iterate rows as objects keyed by column name, so their
+ * columns must have distinct names.
+ *
+ * Safe integers can only be enabled for a whole database, so with int64 set to
+ * bigint or string the Database has to be opened with `safeIntegers: true` for
+ * values beyond 2^53 to keep their precision.
+ */
+
+import { NodeFlags, SyntaxKind, TypeNode, factory } from "typescript";
+
+import { Context } from "../context";
+import { Column, Parameter, Query } from "../gen/plugin/codegen_pb";
+import * as sqlite from "./sqlite";
+import { ExecArgs, RowsArgs, SqliteClient } from "./sqlite";
+import { sqliteInt64Decoder } from "./sqlitetypes";
+import { placeholderValues, rowColumns, streamFuncDecl, yieldBatchesStatements } from "./utils";
+
+const client: SqliteClient = {
+  module: "bun:sqlite",
+  resultType: "Changes",
+  blob: "Uint8Array",
+  // Generate: database.query(`SELECT ...`)
+  prepare(_ctx, text) {
+    return factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createIdentifier("database"),
+        factory.createIdentifier("query"),
+      ),
+      undefined,
+      [text],
+    );
+  },
+  // Generate: stmt.values(args.a, ...), or stmt.values(args.a, ...)[0] for the first row
+  rawRows(method, args) {
+    const rows = factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createIdentifier("stmt"),
+        factory.createIdentifier("values"),
+      ),
+      undefined,
+      args,
+    );
+    return method === "all"
+      ? rows
+      : factory.createElementAccessExpression(rows, factory.createNumericLiteral("0"));
+  },
+};
+
+export function columnType(ctx: Context, column?: Column): TypeNode {
+  return sqlite.columnType(client, ctx, column);
+}
+
+export const supportsPrepare = sqlite.supportsPrepare;
+
+export function preamble(_ctx: Context, queries: Query[]) {
+  return sqlite.preamble(client, queries);
+}
+
+export function execDecl(...args: ExecArgs) {
+  return sqlite.execDecl(client, ...args);
+}
+
+export function execlastidDecl(...args: ExecArgs) {
+  return sqlite.execlastidDecl(client, ...args);
+}
+
+export function execrowsDecl(...args: ExecArgs) {
+  return sqlite.execrowsDecl(client, ...args);
+}
+
+export function execresultDecl(...args: ExecArgs) {
+  return sqlite.execresultDecl(client, ...args);
+}
+
+export function manyDecl(...args: RowsArgs) {
+  return sqlite.manyDecl(client, ...args);
+}
+
+export function oneDecl(...args: RowsArgs) {
+  return sqlite.oneDecl(client, ...args);
+}
+
+export function streamDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // iterate() has no raw mode: rows are objects, which lose repeated names
+  const names = rowColumns(ctx, columns).map((column) => column.name);
+  const repeated = names.find((name, i) => names.indexOf(name) !== i);
+  if (repeated !== undefined) {
+    throw new Error(
+      `stream functions of bun:sqlite read rows by column name, and column "${repeated}" ` +
+        `appears more than once; give the columns distinct names with AS`,
+    );
+  }
+  // Generate:
+  //   const stmt = database.query(`...`);
+  //   const names = stmt.columnNames;
+  //   let rows: any[][] = [];
+  //   for await (const row of stmt.iterate(...) as IterableIterator<any>) {
+  //     rows.push(names.map((name) => row[name]));
+  //     ...
+  const row = factory.createIdentifier("row");
+  const name = factory.createIdentifier("name");
+  const values = factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier("names"),
+      factory.createIdentifier("map"),
+    ),
+    undefined,
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [factory.createParameterDeclaration(undefined, undefined, name)],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        factory.createElementAccessExpression(row, name),
+      ),
+    ],
+  );
+  return streamFuncDecl(funcName, "database", "Database", argIface, returnIface, params, [
+    sqlite.stmtDecl(client, ctx, queryText, params),
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            factory.createIdentifier("names"),
+            undefined,
+            undefined,
+            factory.createPropertyAccessExpression(
+              factory.createIdentifier("stmt"),
+              factory.createIdentifier("columnNames"),
+            ),
+          ),
+        ],
+        NodeFlags.Const,
+      ),
+    ),
+    ...yieldBatchesStatements(
+      ctx,
+      factory.createAsExpression(
+        factory.createCallExpression(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("stmt"),
+            factory.createIdentifier("iterate"),
+          ),
+          undefined,
+          placeholderValues(ctx, params),
+        ),
+        factory.createTypeReferenceNode(factory.createIdentifier("IterableIterator"), [
+          factory.createKeywordTypeNode(SyntaxKind.AnyKeyword),
+        ]),
+      ),
+      columns,
+      sqliteInt64Decoder(ctx),
+      values,
+    ),
+  ]);
+}
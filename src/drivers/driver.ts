@@ -0,0 +1,112 @@
+import { Node, TypeNode } from "typescript";
+
+import { Context } from "../context";
+import { Column, Identifier, Parameter, Query } from "../gen/plugin/codegen_pb";
+import { TypeImport } from "../options";
+
+/**
+ * The surface every driver module exposes to codegen().
+ *
+ * Drivers are plain modules of functions; `import * as driver` satisfies this
+ * interface structurally. Optional functions are only implemented by drivers
+ * whose client library can support the query command.
+ */
+export interface Driver {
+  // Imports and helpers for a file; `queries` are the queries generated into it
+  preamble(ctx: Context, queries: Query[]): Node[];
+  columnType(ctx: Context, column?: Column): TypeNode;
+  // Imports the type from columnType() needs, e.g. interfaces of a helper module
+  columnImports?(ctx: Context, column: Column): TypeImport[];
+  // Whether the client can send a query as a prepared (true) or an unprepared
+  // (false) statement when Context.statement asks for one
+  supportsPrepare(prepare: boolean): boolean;
+  execDecl(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    params: Parameter[],
+  ): Node;
+  execlastidDecl(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    params: Parameter[],
+  ): Node;
+  execrowsDecl?(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    params: Parameter[],
+  ): Node;
+  execresultDecl?(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    params: Parameter[],
+  ): Node;
+  oneDecl(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    returnIface: string,
+    params: Parameter[],
+    columns: Column[],
+  ): Node;
+  manyDecl(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    returnIface: string,
+    params: Parameter[],
+    columns: Column[],
+  ): Node;
+  // Stream functions of :many queries yield the rows in batches of up to batchSize rows
+  streamDecl?(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    argIface: string | undefined,
+    returnIface: string,
+    params: Parameter[],
+    columns: Column[],
+  ): Node;
+  // Batch commands take an array of Args (`batchIface` is the element type)
+  batchexecDecl?(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    batchIface: string,
+    params: Parameter[],
+  ): Node;
+  batchoneDecl?(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    batchIface: string,
+    returnIface: string,
+    params: Parameter[],
+    columns: Column[],
+  ): Node;
+  batchmanyDecl?(
+    ctx: Context,
+    funcName: string,
+    queryText: string,
+    batchIface: string,
+    returnIface: string,
+    params: Parameter[],
+    columns: Column[],
+  ): Node;
+  copyfromDecl?(
+    ctx: Context,
+    funcName: string,
+    table: Identifier,
+    batchIface: string,
+    params: Parameter[],
+  ): Node;
+}
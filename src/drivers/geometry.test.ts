@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+
+import { Context } from "../context";
+import { Column, Identifier } from "../gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS } from "../options";
+import { importNodes } from "../testing";
+import { convertedGeometricType, geometricType, geometryFileNodes } from "./geometry";
+
+function column(type: string) {
+  return new Column({
+    name: "location",
+    type: new Identifier({ name: type }),
+    table: new Identifier({ name: "places" }),
+  });
+}
+
+describe("geometricType", () => {
+  it("names the interface of each geometric type", () => {
+    expect(geometricType(column("point"))).toBe("Point");
+    expect(geometricType(column("pg_catalog.lseg"))).toBe("LineSegment");
+    expect(geometricType(column("CIRCLE"))).toBe("Circle");
+    expect(geometricType(column("text"))).toBeUndefined();
+    expect(geometricType(undefined)).toBeUndefined();
+  });
+});
+
+describe("convertedGeometricType", () => {
+  it("leaves overridden columns alone", () => {
+    const ctx: Context = {
+      options: {
+        ...DEFAULT_OPTIONS,
+        overrides: [{ column: "places.location", nullable: false, tsType: "[number, number]" }],
+      },
+      defaultSchema: "public",
+      enums: new Map(),
+      composites: new Map(),
+      jsonTypes: new Map(),
+      models: new Map(),
+    };
+    expect(convertedGeometricType(ctx, column("point"))).toBeUndefined();
+    expect(convertedGeometricType({ ...ctx, options: DEFAULT_OPTIONS }, column("point"))).toBe(
+      "Point",
+    );
+  });
+});
+
+// Import the generated geometry.ts
+const geometry = await importNodes<Record<string, (value: unknown) => unknown>>(
+  geometryFileNodes(),
+  "geometry.ts",
+);
+
+describe("geometry.ts", () => {
+  // Parse the text PostgreSQL returns, and format it back
+  function roundTrip(type: string, text: string) {
+    const value = geometry[`parse${type}`](text);
+    return { value, text: geometry[`format${type}`](value) };
+  }
+
+  it("parses and formats points, lines, segments, boxes and circles", () => {
+    expect(roundTrip("Point", "(1.5,-2)")).toEqual({ value: { x: 1.5, y: -2 }, text: "(1.5,-2)" });
+    expect(roundTrip("Line", "{1,-1,0}")).toEqual({
+      value: { a: 1, b: -1, c: 0 },
+      text: "{1,-1,0}",
+    });
+    expect(roundTrip("LineSegment", "[(0,0),(1e-05,2)]")).toEqual({
+      value: { start: { x: 0, y: 0 }, end: { x: 0.00001, y: 2 } },
+      text: "[(0,0),(0.00001,2)]",
+    });
+    expect(roundTrip("Box", "(2,2),(0,0)")).toEqual({
+      value: { upperRight: { x: 2, y: 2 }, lowerLeft: { x: 0, y: 0 } },
+      text: "(2,2),(0,0)",
+    });
+    expect(roundTrip("Circle", "<(1,2),3>")).toEqual({
+      value: { x: 1, y: 2, radius: 3 },
+      text: "<(1,2),3>",
+    });
+  });
+
+  it("keeps paths open or closed", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+    ];
+    expect(roundTrip("Path", "[(0,0),(1,1)]")).toEqual({
+      value: { closed: false, points },
+      text: "[(0,0),(1,1)]",
+    });
+    expect(roundTrip("Path", "((0,0),(1,1))")).toEqual({
+      value: { closed: true, points },
+      text: "((0,0),(1,1))",
+    });
+    expect(roundTrip("Polygon", "((0,0),(1,1),(1,0))")).toEqual({
+      value: { points: [...points, { x: 1, y: 0 }] },
+      text: "((0,0),(1,1),(1,0))",
+    });
+  });
+
+  it("passes parsed values through", () => {
+    const point = { x: 1, y: 2 };
+    expect(geometry.parsePoint(point)).toBe(point);
+  });
+});
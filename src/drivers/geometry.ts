@@ -0,0 +1,241 @@
+/**
+ * PostgreSQL geometric types for the PostgreSQL drivers.
+ *
+ * Each type is an interface in a generated geometry.ts module, together with
+ * functions that read the text form PostgreSQL returns and write the text form
+ * it accepts for parameters. pg already parses point and circle into the same
+ * shapes, so the parse functions pass objects through unchanged.
+ */
+
+import { ImportDeclaration, Node, factory } from "typescript";
+
+import { Context } from "../context";
+import { Column, Query } from "../gen/plugin/codegen_pb";
+import { TypeImport } from "../options";
+import { findOverride } from "../overrides";
+import { rowColumns, sourceNode } from "./utils";
+
+export const GEOMETRY_FILE = "geometry";
+
+// Interface name of each geometric type
+const GEOMETRIC_TYPES = new Map([
+  ["point", "Point"],
+  ["line", "Line"],
+  ["lseg", "LineSegment"],
+  ["box", "Box"],
+  ["path", "Path"],
+  ["polygon", "Polygon"],
+  ["circle", "Circle"],
+]);
+
+/**
+ * The interface name of a geometric column, or undefined for other columns.
+ */
+export function geometricType(column: Column | undefined): string | undefined {
+  const typeName = column?.type?.name.toLowerCase() ?? "";
+  const name = typeName.startsWith("pg_catalog.") ? typeName.slice("pg_catalog.".length) : typeName;
+  return GEOMETRIC_TYPES.get(name);
+}
+
+/**
+ * The interface name of a column whose values the generated code converts,
+ * i.e. a geometric column without an override.
+ */
+export function convertedGeometricType(ctx: Context, column: Column | undefined) {
+  if (findOverride(ctx.options.overrides, column)) {
+    return undefined;
+  }
+  return geometricType(column);
+}
+
+export function geometryTypeImport(name: string): TypeImport {
+  return { from: `./${GEOMETRY_FILE}`, name, default: false };
+}
+
+/**
+ * Import the parse and format functions the queries of a file call:
+ * import { formatPoint, parsePoint } from "./geometry";
+ */
+export function geometryImports(ctx: Context, queries: Query[]): ImportDeclaration[] {
+  const names = new Set<string>();
+  for (const query of queries) {
+    for (const column of rowColumns(ctx, query.columns)) {
+      const name = convertedGeometricType(ctx, column);
+      if (name !== undefined) {
+        names.add(`parse${name}`);
+      }
+    }
+    for (const param of query.params) {
+      const name = convertedGeometricType(ctx, param.column);
+      if (name !== undefined) {
+        names.add(`format${name}`);
+      }
+    }
+  }
+  if (names.size === 0) {
+    return [];
+  }
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        false,
+        undefined,
+        factory.createNamedImports(
+          [...names]
+            .sort()
+            .map((name) =>
+              factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+            ),
+        ),
+      ),
+      factory.createStringLiteral(`./${GEOMETRY_FILE}`),
+      undefined,
+    ),
+  ];
+}
+
+// Contents of geometry.ts; each entry is printed as its own node
+const geometryModule = [
+  String.raw`
+export interface Point {
+    x: number;
+    y: number;
+}`,
+  String.raw`
+// The line a*x + b*y + c = 0
+export interface Line {
+    a: number;
+    b: number;
+    c: number;
+}`,
+  String.raw`
+export interface LineSegment {
+    start: Point;
+    end: Point;
+}`,
+  String.raw`
+export interface Box {
+    upperRight: Point;
+    lowerLeft: Point;
+}`,
+  String.raw`
+export interface Path {
+    closed: boolean;
+    points: Point[];
+}`,
+  String.raw`
+export interface Polygon {
+    points: Point[];
+}`,
+  String.raw`
+export interface Circle {
+    x: number;
+    y: number;
+    radius: number;
+}`,
+  String.raw`
+function numbers(text: string): number[] {
+    return (text.match(/[^\s(),<>{}\[\]]+/g) ?? []).map(Number);
+}`,
+  String.raw`
+function points(text: string): Point[] {
+    const values = numbers(text);
+    const result: Point[] = [];
+    for (let i = 0; i + 1 < values.length; i += 2) {
+        result.push({ x: values[i], y: values[i + 1] });
+    }
+    return result;
+}`,
+  String.raw`
+function pointsText(values: Point[]): string {
+    return values.map(formatPoint).join(",");
+}`,
+  String.raw`
+export function parsePoint(value: string | Point): Point {
+    if (typeof value !== "string") {
+        return value;
+    }
+    const [x, y] = numbers(value);
+    return { x, y };
+}`,
+  String.raw`
+export function formatPoint(value: Point): string {
+    return "(" + value.x + "," + value.y + ")";
+}`,
+  String.raw`
+export function parseLine(value: string | Line): Line {
+    if (typeof value !== "string") {
+        return value;
+    }
+    const [a, b, c] = numbers(value);
+    return { a, b, c };
+}`,
+  String.raw`
+export function formatLine(value: Line): string {
+    return "{" + value.a + "," + value.b + "," + value.c + "}";
+}`,
+  String.raw`
+export function parseLineSegment(value: string | LineSegment): LineSegment {
+    if (typeof value !== "string") {
+        return value;
+    }
+    const [start, end] = points(value);
+    return { start, end };
+}`,
+  String.raw`
+export function formatLineSegment(value: LineSegment): string {
+    return "[" + pointsText([value.start, value.end]) + "]";
+}`,
+  String.raw`
+export function parseBox(value: string | Box): Box {
+    if (typeof value !== "string") {
+        return value;
+    }
+    const [upperRight, lowerLeft] = points(value);
+    return { upperRight, lowerLeft };
+}`,
+  String.raw`
+export function formatBox(value: Box): string {
+    return pointsText([value.upperRight, value.lowerLeft]);
+}`,
+  String.raw`
+export function parsePath(value: string | Path): Path {
+    if (typeof value !== "string") {
+        return value;
+    }
+    return { closed: value.trimStart().startsWith("("), points: points(value) };
+}`,
+  String.raw`
+export function formatPath(value: Path): string {
+    const text = pointsText(value.points);
+    return value.closed ? "(" + text + ")" : "[" + text + "]";
+}`,
+  String.raw`
+export function parsePolygon(value: string | Polygon): Polygon {
+    if (typeof value !== "string") {
+        return value;
+    }
+    return { points: points(value) };
+}`,
+  String.raw`
+export function formatPolygon(value: Polygon): string {
+    return "(" + pointsText(value.points) + ")";
+}`,
+  String.raw`
+export function parseCircle(value: string | Circle): Circle {
+    if (typeof value !== "string") {
+        return value;
+    }
+    const [x, y, radius] = numbers(value);
+    return { x, y, radius };
+}`,
+  String.raw`
+export function formatCircle(value: Circle): string {
+    return "<" + formatPoint(value) + "," + value.radius + ">";
+}`,
+];
+
+export function geometryFileNodes(): Node[] {
+  return geometryModule.map(sourceNode);
+}
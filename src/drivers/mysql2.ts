@@ -0,0 +1,415 @@
+/**
+ * mysql2 driver for sqlc-gen-typescript
+ *
+ * Generates code against the promise API of the mysql2 package. The query text
+ * keeps its ? placeholders and the arguments are passed as `values`. Rows are
+ * requested as arrays and mapped onto the Row interfaces by position.
+ * Connections, pool connections and pools all work as the client. Stream
+ * functions take a pool and stream the rows through its callback API.
+ */
+
+import { SyntaxKind, NodeFlags, TypeNode, factory, Expression, Statement } from "typescript";
+
+import { Context } from "../context";
+import { Parameter, Column, Query } from "../gen/plugin/codegen_pb";
+import { findOverride } from "../overrides";
+import { isBigintColumn, isBooleanColumn, mysqlColumnType } from "./mysqltypes";
+import {
+  ColumnDecoder,
+  convertColumnValue,
+  firstRowStatements,
+  funcParamsDecl,
+  int64Conversion,
+  int64Type,
+  jsonParamEncoder,
+  mapRowsExpr,
+  placeholderQueryText,
+  placeholderValues,
+  streamFuncDecl,
+  yieldBatchesStatements,
+} from "./utils";
+
+export function columnType(ctx: Context, column?: Column): TypeNode {
+  return mysqlColumnType(ctx, column);
+}
+
+// Prepared statements are run with execute() instead of query()
+export function supportsPrepare(_prepare: boolean): boolean {
+  return true;
+}
+
+export function preamble(_ctx: Context, _queries: Query[]) {
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        true, // type-only import
+        undefined,
+        factory.createNamedImports(
+          ["Connection", "Pool", "ResultSetHeader", "RowDataPacket"].map((name) =>
+            factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+          ),
+        ),
+      ),
+      factory.createStringLiteral("mysql2/promise"),
+      undefined,
+    ),
+    // type Client = Connection | Pool;
+    factory.createTypeAliasDeclaration(
+      undefined,
+      factory.createIdentifier("Client"),
+      undefined,
+      factory.createUnionTypeNode([
+        factory.createTypeReferenceNode(factory.createIdentifier("Connection"), undefined),
+        factory.createTypeReferenceNode(factory.createIdentifier("Pool"), undefined),
+      ]),
+    ),
+  ];
+}
+
+/**
+ * Convert TINYINT(1) values from 0/1 to booleans, and BIGINT values (read as
+ * strings, see queryCall) to bigint when the int64 option asks for it.
+ */
+function columnDecoder(ctx: Context): ColumnDecoder {
+  return (column, value) => {
+    if (findOverride(ctx.options.overrides, column)) {
+      return value;
+    }
+    if (isBooleanColumn(column)) {
+      return convertColumnValue(column, value, (v) =>
+        factory.createCallExpression(factory.createIdentifier("Boolean"), undefined, [v]),
+      );
+    }
+    if (isBigintColumn(column) && ctx.options.int64 === "bigint") {
+      return convertColumnValue(column, value, int64Conversion("bigint"));
+    }
+    return value;
+  };
+}
+
+/**
+ * Generate: { sql: `...`, values: [...], rowsAsArray: true }
+ *
+ * JSON arguments are sent as their JSON text.
+ * With int64 set to bigint or string, BIGINT values and insertId are read as
+ * strings so they keep their precision beyond 2^53.
+ */
+function queryOptions(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+  rowsAsArray: boolean,
+): Expression {
+  const properties = [
+    factory.createPropertyAssignment(
+      factory.createIdentifier("sql"),
+      placeholderQueryText(ctx, queryText, params),
+    ),
+    factory.createPropertyAssignment(
+      factory.createIdentifier("values"),
+      factory.createArrayLiteralExpression(
+        placeholderValues(ctx, params, jsonParamEncoder()),
+        false,
+      ),
+    ),
+  ];
+  if (ctx.options.int64 === "bigint" || ctx.options.int64 === "string") {
+    properties.push(
+      factory.createPropertyAssignment(
+        factory.createIdentifier("supportBigNumbers"),
+        factory.createTrue(),
+      ),
+      factory.createPropertyAssignment(
+        factory.createIdentifier("bigNumberStrings"),
+        factory.createTrue(),
+      ),
+    );
+  }
+  if (rowsAsArray) {
+    properties.push(
+      factory.createPropertyAssignment(
+        factory.createIdentifier("rowsAsArray"),
+        factory.createTrue(),
+      ),
+    );
+  }
+  return factory.createObjectLiteralExpression(properties, true);
+}
+
+/**
+ * Generate: await client.query<Result>({ ... }), or client.execute() for a
+ * prepared statement
+ */
+function queryCall(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+  resultType?: "RowDataPacket" | "ResultSetHeader",
+): Expression {
+  let typeArgs: TypeNode[] | undefined = undefined;
+  if (resultType === "RowDataPacket") {
+    typeArgs = [
+      factory.createArrayTypeNode(
+        factory.createTypeReferenceNode(factory.createIdentifier(resultType), undefined),
+      ),
+    ];
+  } else if (resultType !== undefined) {
+    typeArgs = [factory.createTypeReferenceNode(factory.createIdentifier(resultType), undefined)];
+  }
+  return factory.createAwaitExpression(
+    factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createIdentifier("client"),
+        factory.createIdentifier(ctx.statement?.prepare === true ? "execute" : "query"),
+      ),
+      typeArgs,
+      [queryOptions(ctx, queryText, params, resultType === "RowDataPacket")],
+    ),
+  );
+}
+
+/**
+ * Generate: const [<name>] = await client.query<Result>({ ... });
+ */
+function destructureDecl(
+  ctx: Context,
+  name: string,
+  queryText: string,
+  params: Parameter[],
+  resultType: "RowDataPacket" | "ResultSetHeader",
+) {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [
+        factory.createVariableDeclaration(
+          factory.createArrayBindingPattern([
+            factory.createBindingElement(undefined, undefined, factory.createIdentifier(name)),
+          ]),
+          undefined,
+          undefined,
+          queryCall(ctx, queryText, params, resultType),
+        ),
+      ],
+      NodeFlags.Const,
+    ),
+  );
+}
+
+function funcDecl(
+  funcName: string,
+  argIface: string | undefined,
+  params: Parameter[],
+  returnType: TypeNode,
+  statements: Statement[],
+) {
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParamsDecl("client", "Client", argIface, params),
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [returnType]),
+    factory.createBlock(statements, true),
+  );
+}
+
+/**
+ * Generate a function that returns a field of (or the whole) ResultSetHeader.
+ */
+function resultHeaderDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+  returnType: TypeNode,
+  returnExpr: (result: Expression) => Expression,
+) {
+  return funcDecl(funcName, argIface, params, returnType, [
+    destructureDecl(ctx, "result", queryText, params, "ResultSetHeader"),
+    factory.createReturnStatement(returnExpr(factory.createIdentifier("result"))),
+  ]);
+}
+
+export function execDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  return funcDecl(
+    funcName,
+    argIface,
+    params,
+    factory.createKeywordTypeNode(SyntaxKind.VoidKeyword),
+    [factory.createExpressionStatement(queryCall(ctx, queryText, params))],
+  );
+}
+
+export function execlastidDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  // insertId is a number, or a string with supportBigNumbers
+  const mode = ctx.options.int64 ?? "number";
+  const insertId = (result: Expression) =>
+    factory.createPropertyAccessExpression(result, factory.createIdentifier("insertId"));
+  return resultHeaderDecl(
+    ctx,
+    funcName,
+    queryText,
+    argIface,
+    params,
+    int64Type(mode),
+    mode === "number" ? insertId : (result) => int64Conversion(mode)(insertId(result)),
+  );
+}
+
+export function execrowsDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  return resultHeaderDecl(
+    ctx,
+    funcName,
+    queryText,
+    argIface,
+    params,
+    factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    (result) =>
+      factory.createPropertyAccessExpression(result, factory.createIdentifier("affectedRows")),
+  );
+}
+
+export function execresultDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  return resultHeaderDecl(
+    ctx,
+    funcName,
+    queryText,
+    argIface,
+    params,
+    factory.createTypeReferenceNode(factory.createIdentifier("ResultSetHeader"), undefined),
+    (result) => result,
+  );
+}
+
+export function manyDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   const [rows] = await client.query<RowDataPacket[]>({ ... });
+  //   return rows.map((row) => ({ ... }));
+  return funcDecl(
+    funcName,
+    argIface,
+    params,
+    factory.createArrayTypeNode(
+      factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+    ),
+    [
+      destructureDecl(ctx, "rows", queryText, params, "RowDataPacket"),
+      factory.createReturnStatement(
+        mapRowsExpr(ctx, factory.createIdentifier("rows"), columns, columnDecoder(ctx)),
+      ),
+    ],
+  );
+}
+
+export function streamDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   let rows: any[][] = [];
+  //   for await (const row of client.pool.query({ ... }).stream()) { ... }
+  const stream = factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("client"),
+            factory.createIdentifier("pool"),
+          ),
+          factory.createIdentifier("query"),
+        ),
+        undefined,
+        [queryOptions(ctx, queryText, params, true)],
+      ),
+      factory.createIdentifier("stream"),
+    ),
+    undefined,
+    [],
+  );
+  return streamFuncDecl(
+    funcName,
+    "client",
+    "Pool",
+    argIface,
+    returnIface,
+    params,
+    yieldBatchesStatements(ctx, stream, columns, columnDecoder(ctx)),
+  );
+}
+
+export function oneDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   const [rows] = await client.query<RowDataPacket[]>({ ... });
+  //   const row = rows[0];
+  //   if (row === undefined) { return null; }
+  //   return { ... };
+  return funcDecl(
+    funcName,
+    argIface,
+    params,
+    factory.createUnionTypeNode([
+      factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+      factory.createLiteralTypeNode(factory.createNull()),
+    ]),
+    [
+      destructureDecl(ctx, "rows", queryText, params, "RowDataPacket"),
+      ...firstRowStatements(
+        ctx,
+        factory.createElementAccessExpression(
+          factory.createIdentifier("rows"),
+          factory.createNumericLiteral("0"),
+        ),
+        columns,
+        columnDecoder(ctx),
+      ),
+    ],
+  );
+}
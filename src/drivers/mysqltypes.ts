@@ -0,0 +1,117 @@
+/**
+ * MySQL type mapping for the mysql2 driver.
+ *
+ * Types follow what mysql2 returns with its default connection options:
+ * DECIMAL as string, DATE/DATETIME/TIMESTAMP as Date and JSON already parsed.
+ */
+
+import { SyntaxKind, TypeNode, factory } from "typescript";
+
+import { Context } from "../context";
+import { Column } from "../gen/plugin/codegen_pb";
+import { jsonType } from "../jsontypes";
+import { catalogTypeName, getEnumName, int64Type } from "./utils";
+
+/**
+ * TINYINT(1) is MySQL's BOOLEAN. mysql2 returns it as 0 or 1, so the driver
+ * converts it to a boolean when reading rows.
+ */
+export function isBooleanColumn(column: Column): boolean {
+  const typeName = column.type?.name.toLowerCase() ?? "";
+  if (typeName === "bool" || typeName === "boolean") {
+    return true;
+  }
+  return typeName === "tinyint" && column.length === 1 && !column.unsigned;
+}
+
+export function isBigintColumn(column: Column): boolean {
+  return column.type?.name.toLowerCase() === "bigint";
+}
+
+export function mysqlColumnType(ctx: Context, column?: Column): TypeNode {
+  if (column === undefined || column.type === undefined) {
+    return factory.createKeywordTypeNode(SyntaxKind.AnyKeyword);
+  }
+
+  const enumName = getEnumName(ctx, column);
+  const typeName = column.type.name.toLowerCase();
+
+  let typ: TypeNode;
+  if (enumName !== null) {
+    typ = factory.createTypeReferenceNode(
+      factory.createIdentifier(catalogTypeName(enumName)),
+      undefined,
+    );
+  } else if (isBooleanColumn(column)) {
+    typ = factory.createKeywordTypeNode(SyntaxKind.BooleanKeyword);
+  } else {
+    switch (typeName) {
+      // Integer and floating point types
+      case "tinyint":
+      case "smallint":
+      case "mediumint":
+      case "int":
+      case "integer":
+      case "year":
+      case "float":
+      case "double":
+      case "double precision":
+      case "real":
+        typ = factory.createKeywordTypeNode(SyntaxKind.NumberKeyword);
+        break;
+      // BIGINT is a number unless the int64 option asks for bigint or string
+      case "bigint":
+        typ = int64Type(ctx.options.int64 ?? "number");
+        break;
+      // Fixed-point types are returned as strings to keep their precision
+      case "decimal":
+      case "dec":
+      case "numeric":
+      case "fixed":
+        typ = factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+        break;
+      // Date/time types
+      case "date":
+      case "datetime":
+      case "timestamp":
+        typ = factory.createTypeReferenceNode(factory.createIdentifier("Date"), undefined);
+        break;
+      // String types, including inline ENUM and SET columns sqlc did not name
+      case "time":
+      case "char":
+      case "varchar":
+      case "tinytext":
+      case "text":
+      case "mediumtext":
+      case "longtext":
+      case "enum":
+      case "set":
+        typ = factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+        break;
+      // Binary types
+      case "binary":
+      case "varbinary":
+      case "tinyblob":
+      case "blob":
+      case "mediumblob":
+      case "longblob":
+      case "bit":
+        typ = factory.createTypeReferenceNode(factory.createIdentifier("Buffer"), undefined);
+        break;
+      // JSON is parsed by mysql2; typed as annotated in the catalog, otherwise unknown
+      case "json":
+        typ = jsonType(ctx, column);
+        break;
+      default:
+        throw new Error(
+          `Unrecognized MySQL type: "${column.type.name}" for column "${column.name || "unknown"}". ` +
+            `If this is a valid MySQL type that needs support, please add it to sqlc-gen-typescript/src/drivers/mysqltypes.ts`,
+        );
+    }
+  }
+
+  if (column.notNull) {
+    return typ;
+  }
+  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+
+import { Context } from "../context";
+import { Column, CompositeType, Enum, Identifier, Query } from "../gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS } from "../options";
+import { importNodes } from "../testing";
+import { manyDecl, preamble } from "./pg";
+
+const ctx: Context = {
+  options: DEFAULT_OPTIONS,
+  defaultSchema: "public",
+  enums: new Map([["doc_status", new Enum({ name: "doc_status" })]]),
+  composites: new Map([["address", new CompositeType({ name: "address" })]]),
+  jsonTypes: new Map(),
+  models: new Map(),
+};
+
+describe("manyDecl", () => {
+  const column = (name: string, type: string, extra: Partial<Column> = {}) =>
+    new Column({ name, type: new Identifier({ name: type }), isArray: true, ...extra });
+  const columns = [
+    column("statuses", "doc_status", { notNull: true }),
+    column("places", "address"),
+    column("grid", "doc_status", { arrayDims: 2 }),
+    column("labels", "text"),
+  ];
+  const query = new Query({ name: "ListDocs", cmd: ":many", columns });
+
+  it("parses arrays of enums and composite types", async () => {
+    const { listDocs } = await importNodes<{
+      listDocs: (client: unknown) => Promise<unknown[]>;
+    }>(
+      [...preamble(ctx, [query]), manyDecl(ctx, "listDocs", "", undefined, "Doc", [], columns)],
+      "list.ts",
+    );
+    // pg returns the text form of the enum and composite arrays
+    const rows = [
+      ["{active,pending}", '{"(1,\\"a b\\")",NULL}', "{{active},{NULL}}", ["x"]],
+      ["{}", null, null, null],
+    ];
+    const client = { query: async () => ({ rows }) };
+    expect(await listDocs(client)).toEqual([
+      {
+        statuses: ["active", "pending"],
+        places: ['(1,"a b")', null],
+        grid: [["active"], [null]],
+        labels: ["x"],
+      },
+      { statuses: [], places: null, grid: null, labels: null },
+    ]);
+  });
+});
@@ -0,0 +1,642 @@
+/**
+ * node-postgres (pg) driver for sqlc-gen-typescript
+ *
+ * Generates code that passes the query text with its $1, $2, ... placeholders
+ * unchanged to `client.query()` and maps array-mode rows onto the Row
+ * interfaces by position. Any object with a compatible `query` method works
+ * as the client: Pool, PoolClient or Client.
+ *
+ * With the default type parsers pg returns int8/bigint and numeric values as
+ * strings, and arrays of enums and composite types in their text form, which
+ * the generated code parses.
+ */
+
+import {
+  SyntaxKind,
+  NodeFlags,
+  TypeNode,
+  factory,
+  FunctionDeclaration,
+  Expression,
+} from "typescript";
+
+import { Context } from "../context";
+import { Parameter, Column, Query } from "../gen/plugin/codegen_pb";
+import { TypeImport } from "../options";
+import { findOverride } from "../overrides";
+import {
+  pgColumnImports,
+  pgHelperImports,
+  pgColumnType,
+  pgParamEncoder,
+  pgRowDecoder,
+} from "./pgtypes";
+import {
+  ColumnDecoder,
+  firstRowStatements,
+  funcParamsDecl,
+  getCompositeName,
+  getEnumName,
+  mapRowsExpr,
+  isStreamed,
+  jsonParamEncoder,
+  paramValues,
+  replaceSliceIn,
+  rowColumns,
+  sourceNode,
+  streamFuncDecl,
+} from "./utils";
+
+export function columnType(ctx: Context, column?: Column): TypeNode {
+  return pgColumnType(ctx, column, { int8: ctx.options.int64 ?? "string" });
+}
+
+export function columnImports(ctx: Context, column: Column): TypeImport[] {
+  return pgColumnImports(ctx, column);
+}
+
+// Prepared statements are named after their query; unnamed ones are not prepared
+export function supportsPrepare(_prepare: boolean): boolean {
+  return true;
+}
+
+// Parses the text form of an array, e.g. {active,NULL,"a b"} or {{a,b},{c,d}}
+const parseArrayHelper = String.raw`
+function parseArray(text: string): any[] {
+    const parents: any[][] = [];
+    let current: any[] = [];
+    for (let i = text.startsWith("[") ? text.indexOf("=") + 1 : 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === "{") {
+            const array: any[] = [];
+            current.push(array);
+            parents.push(current);
+            current = array;
+            continue;
+        }
+        if (char === "}") {
+            current = parents.pop()!;
+            continue;
+        }
+        if (char === ",") {
+            continue;
+        }
+        if (char === '"') {
+            let value = "";
+            for (i++; text[i] !== '"'; i++) {
+                if (text[i] === "\\") {
+                    i++;
+                }
+                value += text[i];
+            }
+            current.push(value);
+            continue;
+        }
+        let end = i;
+        while (end < text.length && text[end] !== "," && text[end] !== "}") {
+            end++;
+        }
+        const value = text.slice(i, end);
+        current.push(value === "NULL" ? null : value);
+        i = end - 1;
+    }
+    return current[0];
+}`;
+
+/**
+ * Whether a column is an array of an enum or composite type. pg has no parsers
+ * for these array types, whose OIDs differ per database, and returns their text
+ * form. Overridden columns are left alone.
+ */
+function isTextArrayColumn(ctx: Context, column: Column): boolean {
+  return (
+    (column.isArray || column.arrayDims > 0) &&
+    (getEnumName(ctx, column) !== null || getCompositeName(ctx, column) !== null) &&
+    findOverride(ctx.options.overrides, column) === undefined
+  );
+}
+
+/**
+ * Decode the columns of rows like pgRowDecoder, parsing arrays of enums and
+ * composite types: row[1] === null ? null : parseArray(row[1])
+ */
+function rowDecoder(ctx: Context): ColumnDecoder {
+  const decode = pgRowDecoder(ctx, "string");
+  return (column, value) => {
+    if (!isTextArrayColumn(ctx, column)) {
+      return decode(column, value);
+    }
+    const parsed = factory.createCallExpression(factory.createIdentifier("parseArray"), undefined, [
+      value,
+    ]);
+    if (column.notNull) {
+      return parsed;
+    }
+    return factory.createConditionalExpression(
+      factory.createBinaryExpression(
+        value,
+        factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+        factory.createNull(),
+      ),
+      factory.createToken(SyntaxKind.QuestionToken),
+      factory.createNull(),
+      factory.createToken(SyntaxKind.ColonToken),
+      parsed,
+    );
+  };
+}
+
+export function preamble(ctx: Context, queries: Query[]) {
+  // Stream functions read through pg-cursor, which needs a Client or PoolClient
+  const streams = queries.some((query) => isStreamed(ctx, query));
+  const parseArray = queries.some((query) =>
+    rowColumns(ctx, query.columns).some((column) => isTextArrayColumn(ctx, column)),
+  );
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        true, // type-only import
+        undefined,
+        factory.createNamedImports([
+          ...(streams
+            ? [
+                factory.createImportSpecifier(
+                  false,
+                  undefined,
+                  factory.createIdentifier("ClientBase"),
+                ),
+              ]
+            : []),
+          factory.createImportSpecifier(
+            false,
+            undefined,
+            factory.createIdentifier("QueryArrayConfig"),
+          ),
+          factory.createImportSpecifier(
+            false,
+            undefined,
+            factory.createIdentifier("QueryArrayResult"),
+          ),
+        ]),
+      ),
+      factory.createStringLiteral("pg"),
+      undefined,
+    ),
+    ...(streams
+      ? [
+          factory.createImportDeclaration(
+            undefined,
+            factory.createImportClause(false, factory.createIdentifier("Cursor"), undefined),
+            factory.createStringLiteral("pg-cursor"),
+            undefined,
+          ),
+        ]
+      : []),
+    ...pgHelperImports(ctx, queries),
+    // interface Client {
+    //   query: (config: QueryArrayConfig) => Promise<QueryArrayResult>;
+    // }
+    factory.createInterfaceDeclaration(
+      undefined,
+      factory.createIdentifier("Client"),
+      undefined,
+      undefined,
+      [
+        factory.createPropertySignature(
+          undefined,
+          factory.createIdentifier("query"),
+          undefined,
+          factory.createFunctionTypeNode(
+            undefined,
+            [
+              factory.createParameterDeclaration(
+                undefined,
+                undefined,
+                factory.createIdentifier("config"),
+                undefined,
+                factory.createTypeReferenceNode(
+                  factory.createIdentifier("QueryArrayConfig"),
+                  undefined,
+                ),
+              ),
+            ],
+            factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+              factory.createTypeReferenceNode(
+                factory.createIdentifier("QueryArrayResult"),
+                undefined,
+              ),
+            ]),
+          ),
+        ),
+      ],
+    ),
+    ...(parseArray ? [sourceNode(parseArrayHelper)] : []),
+  ];
+}
+
+/**
+ * Compare with the array of each sqlc.slice() parameter instead of a list:
+ * IN ($1) -> = ANY($1) and NOT IN ($1) -> <> ALL($1), which also hold for an
+ * empty array.
+ */
+function sliceText(queryText: string, params: Parameter[]): string {
+  return params.reduce(
+    (text, param) =>
+      param.column?.isSqlcSlice
+        ? replaceSliceIn(text, param, (placeholder, not) =>
+            not ? `<> ALL(${placeholder})` : `= ANY(${placeholder})`,
+          )
+        : text,
+    queryText,
+  );
+}
+
+// FNV-1a hash of a query text, as 8 hex digits
+function textHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Generate: await client.query({ text: `...`, values: [args.a, args.b], rowMode: "array" })
+ * Prepared statements also pass their name, e.g. name: "GetAuthor_1a2b3c4d".
+ * The hash of the text keeps queries of the same name in other files or
+ * packages from reusing a statement a connection has prepared.
+ */
+function queryCall(ctx: Context, queryText: string, params: Parameter[]): Expression {
+  const text = sliceText(queryText, params);
+  const name =
+    ctx.statement?.prepare === true
+      ? [
+          factory.createPropertyAssignment(
+            factory.createIdentifier("name"),
+            factory.createStringLiteral(`${ctx.statement.name}_${textHash(text)}`),
+          ),
+        ]
+      : [];
+  return factory.createAwaitExpression(
+    factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createIdentifier("client"),
+        factory.createIdentifier("query"),
+      ),
+      undefined,
+      [
+        factory.createObjectLiteralExpression(
+          [
+            ...name,
+            factory.createPropertyAssignment(
+              factory.createIdentifier("text"),
+              factory.createNoSubstitutionTemplateLiteral(text, text),
+            ),
+            factory.createPropertyAssignment(
+              factory.createIdentifier("values"),
+              factory.createArrayLiteralExpression(
+                paramValues(ctx, params, jsonParamEncoder(pgParamEncoder(ctx))),
+                false,
+              ),
+            ),
+            factory.createPropertyAssignment(
+              factory.createIdentifier("rowMode"),
+              factory.createStringLiteral("array"),
+            ),
+          ],
+          true,
+        ),
+      ],
+    ),
+  );
+}
+
+function resultDecl(ctx: Context, queryText: string, params: Parameter[]) {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [
+        factory.createVariableDeclaration(
+          factory.createIdentifier("result"),
+          undefined,
+          undefined,
+          queryCall(ctx, queryText, params),
+        ),
+      ],
+      NodeFlags.Const,
+    ),
+  );
+}
+
+export function execDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  const funcParams = funcParamsDecl("client", "Client", argIface, params);
+
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createKeywordTypeNode(SyntaxKind.VoidKeyword),
+    ]),
+    factory.createBlock(
+      [factory.createExpressionStatement(queryCall(ctx, queryText, params))],
+      true,
+    ),
+  );
+}
+
+export function manyDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  const funcParams = funcParamsDecl("client", "Client", argIface, params);
+
+  // Generate:
+  //   const result = await client.query({ ... });
+  //   return result.rows.map((row) => ({ ... }));
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createArrayTypeNode(
+        factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+      ),
+    ]),
+    factory.createBlock(
+      [
+        resultDecl(ctx, queryText, params),
+        factory.createReturnStatement(
+          mapRowsExpr(
+            ctx,
+            factory.createPropertyAccessExpression(
+              factory.createIdentifier("result"),
+              factory.createIdentifier("rows"),
+            ),
+            columns,
+            rowDecoder(ctx),
+          ),
+        ),
+      ],
+      true,
+    ),
+  );
+}
+
+export function streamDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  const text = sliceText(queryText, params);
+  const cursor = factory.createIdentifier("cursor");
+  const rows = factory.createIdentifier("rows");
+  const cursorCall = (method: string, args: Expression[]) =>
+    factory.createAwaitExpression(
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(cursor, factory.createIdentifier(method)),
+        undefined,
+        args,
+      ),
+    );
+
+  // Generate:
+  //   const cursor = client.query(new Cursor(`...`, [...], { rowMode: "array" }));
+  //   try {
+  //     while (true) {
+  //       const rows = await cursor.read(batchSize);
+  //       if (rows.length === 0) { return; }
+  //       yield rows.map((row) => ({ ... }));
+  //     }
+  //   } finally {
+  //     await cursor.close();
+  //   }
+  return streamFuncDecl(funcName, "client", "ClientBase", argIface, returnIface, params, [
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            cursor,
+            undefined,
+            undefined,
+            factory.createCallExpression(
+              factory.createPropertyAccessExpression(
+                factory.createIdentifier("client"),
+                factory.createIdentifier("query"),
+              ),
+              undefined,
+              [
+                factory.createNewExpression(factory.createIdentifier("Cursor"), undefined, [
+                  factory.createNoSubstitutionTemplateLiteral(text, text),
+                  factory.createArrayLiteralExpression(
+                    paramValues(ctx, params, jsonParamEncoder(pgParamEncoder(ctx))),
+                    false,
+                  ),
+                  factory.createObjectLiteralExpression([
+                    factory.createPropertyAssignment(
+                      factory.createIdentifier("rowMode"),
+                      factory.createStringLiteral("array"),
+                    ),
+                  ]),
+                ]),
+              ],
+            ),
+          ),
+        ],
+        NodeFlags.Const,
+      ),
+    ),
+    factory.createTryStatement(
+      factory.createBlock(
+        [
+          factory.createWhileStatement(
+            factory.createTrue(),
+            factory.createBlock(
+              [
+                factory.createVariableStatement(
+                  undefined,
+                  factory.createVariableDeclarationList(
+                    [
+                      factory.createVariableDeclaration(
+                        rows,
+                        undefined,
+                        undefined,
+                        cursorCall("read", [factory.createIdentifier("batchSize")]),
+                      ),
+                    ],
+                    NodeFlags.Const,
+                  ),
+                ),
+                factory.createIfStatement(
+                  factory.createBinaryExpression(
+                    factory.createPropertyAccessExpression(
+                      rows,
+                      factory.createIdentifier("length"),
+                    ),
+                    factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+                    factory.createNumericLiteral(0),
+                  ),
+                  factory.createBlock([factory.createReturnStatement()], true),
+                ),
+                factory.createExpressionStatement(
+                  factory.createYieldExpression(
+                    undefined,
+                    mapRowsExpr(ctx, rows, columns, rowDecoder(ctx)),
+                  ),
+                ),
+              ],
+              true,
+            ),
+          ),
+        ],
+        true,
+      ),
+      undefined,
+      factory.createBlock([factory.createExpressionStatement(cursorCall("close", []))], true),
+    ),
+  ]);
+}
+
+export function oneDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  const funcParams = funcParamsDecl("client", "Client", argIface, params);
+
+  // Generate:
+  //   const result = await client.query({ ... });
+  //   const row = result.rows[0];
+  //   if (row === undefined) { return null; }
+  //   return { ... };
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createUnionTypeNode([
+        factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+        factory.createLiteralTypeNode(factory.createNull()),
+      ]),
+    ]),
+    factory.createBlock(
+      [
+        resultDecl(ctx, queryText, params),
+        ...firstRowStatements(
+          ctx,
+          factory.createElementAccessExpression(
+            factory.createPropertyAccessExpression(
+              factory.createIdentifier("result"),
+              factory.createIdentifier("rows"),
+            ),
+            factory.createNumericLiteral("0"),
+          ),
+          columns,
+          rowDecoder(ctx),
+        ),
+      ],
+      true,
+    ),
+  );
+}
+
+export function execlastidDecl(
+  _ctx: Context,
+  _funcName: string,
+  _queryText: string,
+  _argIface: string | undefined,
+  _params: Parameter[],
+): FunctionDeclaration {
+  throw new Error("pg driver does not support :execlastid");
+}
+
+export function execrowsDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  const funcParams = funcParamsDecl("client", "Client", argIface, params);
+
+  // Generate:
+  //   const result = await client.query({ ... });
+  //   return result.rowCount ?? 0;
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    ]),
+    factory.createBlock(
+      [
+        resultDecl(ctx, queryText, params),
+        factory.createReturnStatement(
+          factory.createBinaryExpression(
+            factory.createPropertyAccessExpression(
+              factory.createIdentifier("result"),
+              factory.createIdentifier("rowCount"),
+            ),
+            factory.createToken(SyntaxKind.QuestionQuestionToken),
+            factory.createNumericLiteral("0"),
+          ),
+        ),
+      ],
+      true,
+    ),
+  );
+}
+
+export function execresultDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  const funcParams = funcParamsDecl("client", "Client", argIface, params);
+
+  // Generate: return await client.query({ ... });
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [
+      factory.createTypeReferenceNode(factory.createIdentifier("QueryArrayResult"), undefined),
+    ]),
+    factory.createBlock([factory.createReturnStatement(queryCall(ctx, queryText, params))], true),
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * PostgreSQL type mapping shared by the PostgreSQL drivers (postgres.js, Bun SQL, pg).
+ *
+ * Most types decode to the same JavaScript value in every client library; the
+ * ones that don't are described by a per-driver PgTypeMapping.
+ */
+
+import { Expression, ImportDeclaration, SyntaxKind, TypeNode, factory } from "typescript";
+
+import { Context } from "../context";
+import { Column, Query } from "../gen/plugin/codegen_pb";
+import { jsonType } from "../jsontypes";
+import { Int64Mode, TypeImport } from "../options";
+import { findOverride } from "../overrides";
+import {
+  convertedGeometricType,
+  geometricType,
+  geometryImports,
+  geometryTypeImport,
+} from "./geometry";
+import {
+  convertedRangeType,
+  formatRangeExpr,
+  parseRangeExpr,
+  rangeImports,
+  rangeType,
+  rangeTypeImport,
+  rangeTypeNode,
+} from "./range";
+import {
+  ColumnDecoder,
+  ParamEncoder,
+  catalogTypeName,
+  convertColumnValue,
+  getCompositeName,
+  getEnumName,
+  int64Conversion,
+  int64Type,
+} from "./utils";
+
+export interface PgTypeMapping {
+  // How int8/bigint values are typed
+  int8: Int64Mode;
+}
+
+function normalizeTypeName(column: Column): string {
+  const typeName = column.type?.name.toLowerCase() ?? "";
+  return typeName.startsWith("pg_catalog.") ? typeName.slice("pg_catalog.".length) : typeName;
+}
+
+export function isInt8Column(column: Column): boolean {
+  return ["int8", "bigint", "bigserial", "serial8"].includes(normalizeTypeName(column));
+}
+
+/**
+ * Convert int8 values from the representation the client library returns
+ * (`native`) to the configured int64 mode. Overridden columns are left alone.
+ */
+export function pgInt64Decoder(ctx: Context, native: Int64Mode): ColumnDecoder {
+  const mode = ctx.options.int64 ?? native;
+  return (column, value) => {
+    if (mode === native || !isInt8Column(column) || findOverride(ctx.options.overrides, column)) {
+      return value;
+    }
+    return convertColumnValue(column, value, int64Conversion(mode));
+  };
+}
+
+function helperCall(name: string) {
+  return (value: Expression) =>
+    factory.createCallExpression(factory.createIdentifier(name), undefined, [value]);
+}
+
+/**
+ * Parse geometric and range values from their text form, with int8 range
+ * bounds in the `int8` mode. Overridden columns are left alone.
+ */
+export function pgTextDecoder(ctx: Context, int8: Int64Mode): ColumnDecoder {
+  return (column, value) => {
+    const name = convertedGeometricType(ctx, column);
+    if (name !== undefined) {
+      return convertColumnValue(column, value, helperCall(`parse${name}`));
+    }
+    const range = convertedRangeType(ctx, column);
+    if (range !== undefined) {
+      return convertColumnValue(column, value, (v) => parseRangeExpr(range, int8, v));
+    }
+    return value;
+  };
+}
+
+/**
+ * Decode the columns of positional rows: values in text form and int8 values.
+ */
+export function pgRowDecoder(ctx: Context, native: Int64Mode): ColumnDecoder {
+  const text = pgTextDecoder(ctx, ctx.options.int64 ?? native);
+  const int64 = pgInt64Decoder(ctx, native);
+  return (column, value) => {
+    const decoded = text(column, value);
+    return decoded === value ? int64(column, value) : decoded;
+  };
+}
+
+/**
+ * Write geometric and range arguments in the text form PostgreSQL accepts.
+ */
+export function pgParamEncoder(ctx: Context): ParamEncoder {
+  return (column, value) => {
+    const name = convertedGeometricType(ctx, column);
+    if (name !== undefined) {
+      return convertColumnValue(column, value, helperCall(`format${name}`));
+    }
+    const range = convertedRangeType(ctx, column);
+    if (range !== undefined) {
+      return convertColumnValue(column, value, (v) => formatRangeExpr(range, v));
+    }
+    return value;
+  };
+}
+
+/**
+ * Geometric and range columns reference the types of the generated
+ * geometry.ts and range.ts.
+ */
+export function pgColumnImports(_ctx: Context, column: Column): TypeImport[] {
+  const name = geometricType(column);
+  if (name !== undefined) {
+    return [geometryTypeImport(name)];
+  }
+  const range = rangeType(column);
+  return range === undefined ? [] : [rangeTypeImport(range)];
+}
+
+/**
+ * Import the helper functions the queries of a file call.
+ */
+export function pgHelperImports(ctx: Context, queries: Query[]): ImportDeclaration[] {
+  return [...geometryImports(ctx, queries), ...rangeImports(ctx, queries)];
+}
+
+function rejectArray(column: Column, kind: string) {
+  if (column.isArray || column.arrayDims > 0) {
+    throw new Error(
+      `arrays of ${kind} types are not supported (column "${column.name || "unknown"}" of type ` +
+        `"${column.type?.name}[]"); unnest them in SQL or add an override for the column`,
+    );
+  }
+}
+
+export function pgColumnType(
+  ctx: Context,
+  column: Column | undefined,
+  mapping: PgTypeMapping,
+): TypeNode {
+  if (column === undefined || column.type === undefined) {
+    return factory.createKeywordTypeNode(SyntaxKind.AnyKeyword);
+  }
+  const originalTypeName = column.type.name;
+  let typeName = originalTypeName;
+  const pgCatalog = "pg_catalog.";
+  if (typeName.startsWith(pgCatalog)) {
+    typeName = typeName.slice(pgCatalog.length);
+  }
+
+  const lowerTypeName = typeName.toLowerCase();
+
+  // Check if it's an enum type
+  const enumName = getEnumName(ctx, column);
+  if (enumName !== null) {
+    const typ = factory.createTypeReferenceNode(
+      factory.createIdentifier(catalogTypeName(enumName)),
+      undefined,
+    );
+    if (column.isArray || column.arrayDims > 0) {
+      let arrayType: TypeNode = typ;
+      const dims = Math.max(column.arrayDims || 1);
+      for (let i = 0; i < dims; i++) {
+        arrayType = factory.createArrayTypeNode(arrayType);
+      }
+      if (column.notNull) {
+        return arrayType;
+      }
+      return factory.createUnionTypeNode([
+        arrayType,
+        factory.createLiteralTypeNode(factory.createNull()),
+      ]);
+    }
+    if (column.notNull) {
+      return typ;
+    }
+    return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+  }
+
+  let typ: TypeNode;
+  switch (lowerTypeName) {
+    // Boolean types
+    case "bool":
+    case "boolean":
+      typ = factory.createKeywordTypeNode(SyntaxKind.BooleanKeyword);
+      break;
+    // Binary types
+    case "bytea":
+      typ = factory.createTypeReferenceNode(factory.createIdentifier("Buffer"), undefined);
+      break;
+    // Date/time types
+    case "date":
+    case "timestamp":
+    case "timestamp without time zone":
+    case "timestamptz":
+    case "timestamp with time zone":
+      typ = factory.createTypeReferenceNode(factory.createIdentifier("Date"), undefined);
+      break;
+    // Numeric types
+    case "float4":
+    case "real":
+    case "float8":
+    case "float":
+    case "double precision":
+    case "int2":
+    case "smallint":
+    case "int4":
+    case "int":
+    case "integer":
+    case "serial":
+    case "serial2":
+    case "serial4":
+    case "smallserial":
+    case "oid":
+      typ = factory.createKeywordTypeNode(SyntaxKind.NumberKeyword);
+      break;
+    // 64-bit integer types - representation depends on the client library
+    case "int8":
+    case "bigint":
+    case "bigserial":
+    case "serial8":
+      typ = int64Type(mapping.int8);
+      break;
+    // JSON types - the type annotated in the catalog, otherwise unknown
+    case "json":
+    case "jsonb":
+      typ = jsonType(ctx, column);
+      break;
+    // Void type (from functions like pg_advisory_xact_lock)
+    case "void":
+      typ = factory.createKeywordTypeNode(SyntaxKind.VoidKeyword);
+      break;
+    // String types - explicitly listed (unambiguously representable as string)
+    case "text":
+    case "varchar":
+    case "character varying":
+    case "char":
+    case "character":
+    case "bpchar":
+    case "name":
+    case "uuid":
+    case "citext":
+    case "inet":
+    case "cidr":
+    case "macaddr":
+    case "macaddr8":
+    case "money":
+    case "numeric":
+    case "decimal":
+    case "xml":
+    case "bit":
+    case "varbit":
+    case "bit varying":
+    case "interval":
+    case "time":
+    case "time without time zone":
+    case "timetz":
+    case "time with time zone":
+    case "tsvector":
+    case "tsquery":
+      typ = factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+      break;
+    // Geometric types - interfaces in the generated geometry.ts
+    case "point":
+    case "line":
+    case "lseg":
+    case "box":
+    case "path":
+    case "polygon":
+    case "circle":
+      rejectArray(column, "geometric");
+      typ = factory.createTypeReferenceNode(
+        factory.createIdentifier(geometricType(column) ?? ""),
+        undefined,
+      );
+      break;
+    // Range and multirange types - Range<T> and Multirange<T> of the generated range.ts
+    case "int4range":
+    case "int8range":
+    case "numrange":
+    case "tsrange":
+    case "tstzrange":
+    case "daterange":
+    case "int4multirange":
+    case "int8multirange":
+    case "nummultirange":
+    case "tsmultirange":
+    case "tstzmultirange":
+    case "datemultirange": {
+      const range = rangeType(column);
+      if (range === undefined) {
+        throw new Error(`unknown range type "${originalTypeName}"`);
+      }
+      rejectArray(column, "range");
+      typ = rangeTypeNode(range, mapping.int8);
+      break;
+    }
+    default: {
+      // Composite types are read and written in their record text form
+      const compositeName = getCompositeName(ctx, column);
+      if (compositeName !== null) {
+        typ = factory.createTypeReferenceNode(
+          factory.createIdentifier(catalogTypeName(compositeName)),
+          undefined,
+        );
+        break;
+      }
+      throw new Error(
+        `Unrecognized PostgreSQL type: "${originalTypeName}" for column "${column.name || "unknown"}". ` +
+          `This usually means sqlc couldn't infer the type. ` +
+          `Try adding an explicit cast like "sqlc.arg(${column.name})::text" or "sqlc.narg('${column.name}')" in your query. ` +
+          `If this is a valid PostgreSQL type that needs support, please add it to sqlc-gen-typescript/src/drivers/pgtypes.ts`,
+      );
+    }
+  }
+
+  if (column.isArray || column.arrayDims > 0) {
+    const dims = Math.max(column.arrayDims || 1);
+    for (let i = 0; i < dims; i++) {
+      typ = factory.createArrayTypeNode(typ);
+    }
+  }
+
+  if (column.notNull) {
+    return typ;
+  }
+  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+
+import { Context } from "../context";
+import { Column, Identifier, Parameter, Query } from "../gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS } from "../options";
+import { importNodes } from "../testing";
+import { copyfromDecl, preamble } from "./postgres";
+
+const ctx: Context = {
+  options: DEFAULT_OPTIONS,
+  defaultSchema: "public",
+  enums: new Map(),
+  composites: new Map(),
+  jsonTypes: new Map(),
+  models: new Map(),
+};
+
+describe("copyfromDecl", () => {
+  const docs = new Identifier({ name: "docs" });
+  const column = (name: string, type: string, extra: Partial<Column> = {}) =>
+    new Column({
+      name,
+      notNull: true,
+      table: docs,
+      type: new Identifier({ name: type }),
+      ...extra,
+    });
+  const params = [
+    new Parameter({ number: 1, column: column("id", "int4") }),
+    new Parameter({ number: 2, column: column("tags", "jsonb") }),
+    new Parameter({ number: 3, column: column("history", "json", { isArray: true }) }),
+    new Parameter({ number: 4, column: column("labels", "text", { isArray: true }) }),
+  ];
+  const query = new Query({ name: "CopyDocs", cmd: ":copyfrom", params });
+
+  // Run the generated function against a client that records the COPY data
+  async function copyLines(batch: Record<string, unknown>[]): Promise<string[]> {
+    const { copyDocs } = await importNodes<{
+      copyDocs: (sql: unknown, batch: Record<string, unknown>[]) => Promise<number>;
+    }>(
+      [...preamble(ctx, [query]), copyfromDecl(ctx, "copyDocs", docs, "CopyDocsArgs", params)],
+      "copy.ts",
+    );
+    const lines: string[] = [];
+    const handlers: Record<string, () => void> = {};
+    const sql = {
+      unsafe: () => ({
+        writable: async () => ({
+          on: (event: string, handler: () => void) => (handlers[event] = handler),
+          write: (line: string) => lines.push(line),
+          end: () => handlers.finish(),
+        }),
+      }),
+    };
+    expect(await copyDocs(sql, batch)).toBe(batch.length);
+    return lines;
+  }
+
+  it("writes JSON values as JSON text", async () => {
+    const lines = await copyLines([
+      { id: 1, tags: [{ name: "a\tb" }], history: [[1, 2], "hello"], labels: ["x", "y"] },
+      { id: 2, tags: "hello", history: [], labels: [] },
+    ]);
+    expect(lines).toEqual([
+      '1\t[{"name":"a\\\\tb"}]\t{"[1,2]","\\\\"hello\\\\""}\t{"x","y"}\n',
+      '2\t"hello"\t{}\t{}\n',
+    ]);
+  });
+});
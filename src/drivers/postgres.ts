@@ -3,329 +3,294 @@
  *
  * Generates code using tagged template literals for the postgres npm package.
  * Assumes the connection is configured with:
- *   - transform: postgres.camel (for snake_case -> camelCase)
- *   - types.bigint.parse for bigint -> number conversion
+ *   - transform: postgres.camel (for snake_case -> camelCase) with the default
+ *     property_case; other cases expect column names untransformed
+ *   - the `types` exported by the generated code when the int64 option is set;
+ *     without it int8 columns are typed as number and the application has to
+ *     install a matching parser itself
  */
 
-import { SyntaxKind, NodeFlags, TypeNode, factory, FunctionDeclaration } from "typescript";
-
-import { Parameter, Column, Enum } from "../gen/plugin/codegen_pb";
-import { argName } from "./utils";
+import {
+  SyntaxKind,
+  NodeFlags,
+  TypeNode,
+  factory,
+  FunctionDeclaration,
+  Node,
+  ParameterDeclaration,
+  Statement,
+  Expression,
+  isCallExpression,
+  isTaggedTemplateExpression,
+} from "typescript";
+
+import { Context } from "../context";
+import { Parameter, Column, Identifier, Query } from "../gen/plugin/codegen_pb";
+import { Int64Mode, TypeImport } from "../options";
+import {
+  pgColumnImports,
+  pgHelperImports,
+  pgColumnType,
+  pgTextDecoder,
+  pgParamEncoder,
+} from "./pgtypes";
+import {
+  batchParamsDecl,
+  colName,
+  funcParamsDecl,
+  jsonParamEncoder,
+  mapBatchExpr,
+  mapRowsExpr,
+  ParamEncoder,
+  paramValues,
+  promiseAllExpr,
+  quoteIdent,
+  sliceTaggedTemplate,
+  sourceNode,
+  streamFuncDecl,
+} from "./utils";
+
+export function columnType(ctx: Context, column?: Column): TypeNode {
+  return pgColumnType(ctx, column, { int8: ctx.options.int64 ?? "number" });
+}
 
-// Map of enum names to their definitions, set by app.ts
-let enumMap: Map<string, Enum> = new Map();
+// OIDs of the JSON types, which postgres.js serializes with JSON.stringify
+const JSON_OIDS = new Map([
+  ["json", 114],
+  ["jsonb", 3802],
+]);
 
 /**
- * Set the enum map from the catalog. Called by app.ts before generating code.
+ * Encode arguments like pgParamEncoder, passing JSON arguments as
+ * sql.typed(value, oid): the template parameters
+ * of postgres.js do not accept arbitrary objects, and arrays would otherwise be
+ * sent as PostgreSQL arrays.
  */
-export function setEnumMap(map: Map<string, Enum>): void {
-  enumMap = map;
+function paramEncoder(ctx: Context): ParamEncoder {
+  const encode = pgParamEncoder(ctx);
+  return (column, value) => {
+    const typeName = column.type?.name.toLowerCase().replace(/^pg_catalog\./, "") ?? "";
+    const oid = JSON_OIDS.get(typeName);
+    if (oid === undefined || column.isArray || column.arrayDims > 0) {
+      return encode(column, value);
+    }
+    return factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createIdentifier("sql"),
+        factory.createIdentifier("typed"),
+      ),
+      undefined,
+      [value, factory.createNumericLiteral(oid)],
+    );
+  };
 }
 
 /**
- * Check if a column type is an enum and return the enum name if so.
+ * Generate the query: sql`...`, or for a query that decides whether it is
+ * prepared, with the prepare option or an annotation,
+ *   sql.unsafe(`... $1 ...`, [args.a], { prepare: false })
+ * since postgres.js decides whether to prepare a tagged template per connection.
  */
-export function getEnumName(column?: Column): string | null {
-  if (column === undefined || column.type === undefined) {
-    return null;
+function sqlQuery(ctx: Context, queryText: string, params: Parameter[]): Expression {
+  const prepare = ctx.statement?.prepare;
+  if (prepare === undefined) {
+    return sliceTaggedTemplate(ctx, queryText, params, paramEncoder(ctx));
   }
-  const typeName = column.type.name.toLowerCase();
-  if (enumMap.has(typeName)) {
-    return typeName;
+  // The sql() helper that writes sqlc.slice() lists only works in tagged templates
+  if (params.some((param) => param.column?.isSqlcSlice)) {
+    throw new Error(
+      `${prepare ? "prepared" : "unprepared"} statements do not support sqlc.slice()`,
+    );
   }
-  return null;
-}
-
-/**
- * Convert snake_case to PascalCase for enum type names
- */
-function pascalCase(str: string): string {
-  return str
-    .split("_")
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
-    .join("");
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier("sql"),
+      factory.createIdentifier("unsafe"),
+    ),
+    undefined,
+    [
+      factory.createNoSubstitutionTemplateLiteral(queryText, queryText),
+      factory.createArrayLiteralExpression(paramValues(ctx, params, paramEncoder(ctx)), false),
+      factory.createObjectLiteralExpression([
+        factory.createPropertyAssignment(
+          factory.createIdentifier("prepare"),
+          prepare ? factory.createTrue() : factory.createFalse(),
+        ),
+      ]),
+    ],
+  );
 }
 
-export function columnType(column?: Column): TypeNode {
-  if (column === undefined || column.type === undefined) {
-    return factory.createKeywordTypeNode(SyntaxKind.AnyKeyword);
-  }
-  const originalTypeName = column.type.name;
-  let typeName = originalTypeName;
-  const pgCatalog = "pg_catalog.";
-  if (typeName.startsWith(pgCatalog)) {
-    typeName = typeName.slice(pgCatalog.length);
-  }
-
-  const lowerTypeName = typeName.toLowerCase();
-
-  // Check if it's an enum type
-  if (enumMap.has(lowerTypeName)) {
-    const typ = factory.createTypeReferenceNode(
-      factory.createIdentifier(pascalCase(lowerTypeName)),
-      undefined,
-    );
-    if (column.isArray || column.arrayDims > 0) {
-      let arrayType: TypeNode = typ;
-      const dims = Math.max(column.arrayDims || 1);
-      for (let i = 0; i < dims; i++) {
-        arrayType = factory.createArrayTypeNode(arrayType);
-      }
-      if (column.notNull) {
-        return arrayType;
-      }
-      return factory.createUnionTypeNode([
-        arrayType,
-        factory.createLiteralTypeNode(factory.createNull()),
-      ]);
+// Streams rows into a COPY ... FROM STDIN statement using the text format
+const copyFromHelpers = [
+  String.raw`
+function copyText(value: unknown): string {
+    if (value instanceof Date) {
+        return value.toISOString();
     }
-    if (column.notNull) {
-      return typ;
+    if (value instanceof Uint8Array) {
+        return "\\x" + Buffer.from(value).toString("hex");
     }
-    return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
-  }
+    if (Array.isArray(value)) {
+        const items = value.map((item) =>
+            item === null || item === undefined
+                ? "NULL"
+                : '"' + copyText(item).replace(/["\\]/g, "\\$&") + '"',
+        );
+        return "{" + items.join(",") + "}";
+    }
+    if (typeof value === "object") {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}`,
+  String.raw`
+function copyValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "\\N";
+    }
+    return copyText(value)
+        .replace(/\\/g, "\\\\")
+        .replace(/\t/g, "\\t")
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r");
+}`,
+  String.raw`
+async function copyFrom(sql: Client, statement: string, rows: unknown[][]): Promise<number> {
+    const stream = await sql.unsafe(statement).writable();
+    await new Promise<void>((resolve, reject) => {
+        stream.on("error", reject);
+        stream.on("finish", resolve);
+        for (const row of rows) {
+            stream.write(row.map(copyValue).join("\t") + "\n");
+        }
+        stream.end();
+    });
+    return rows.length;
+}`,
+];
 
-  let typ: TypeNode;
-  switch (lowerTypeName) {
-    // Boolean types
-    case "bool":
-    case "boolean":
-      typ = factory.createKeywordTypeNode(SyntaxKind.BooleanKeyword);
-      break;
-    // Binary types
-    case "bytea":
-      typ = factory.createTypeReferenceNode(factory.createIdentifier("Buffer"), undefined);
-      break;
-    // Date/time types
-    case "date":
-    case "timestamp":
-    case "timestamp without time zone":
-    case "timestamptz":
-    case "timestamp with time zone":
-      typ = factory.createTypeReferenceNode(factory.createIdentifier("Date"), undefined);
-      break;
-    // Numeric types
-    case "float4":
-    case "real":
-    case "float8":
-    case "float":
-    case "double precision":
-    case "int2":
-    case "smallint":
-    case "int4":
-    case "int":
-    case "integer":
-    case "int8":
-    case "bigint":
-    case "bigserial":
-    case "serial":
-    case "serial2":
-    case "serial4":
-    case "serial8":
-    case "smallserial":
-    case "oid":
-      typ = factory.createKeywordTypeNode(SyntaxKind.NumberKeyword);
-      break;
-    // JSON types - any to allow flexible object access
-    case "json":
-    case "jsonb":
-      typ = factory.createKeywordTypeNode(SyntaxKind.AnyKeyword);
-      break;
-    // Void type (from functions like pg_advisory_xact_lock)
-    case "void":
-      typ = factory.createKeywordTypeNode(SyntaxKind.VoidKeyword);
-      break;
-    // String types - explicitly listed (unambiguously representable as string)
-    case "text":
-    case "varchar":
-    case "character varying":
-    case "char":
-    case "character":
-    case "bpchar":
-    case "name":
-    case "uuid":
-    case "citext":
-    case "inet":
-    case "cidr":
-    case "macaddr":
-    case "macaddr8":
-    case "money":
-    case "numeric":
-    case "decimal":
-    case "xml":
-    case "bit":
-    case "varbit":
-    case "bit varying":
-    case "interval":
-    case "time":
-    case "time without time zone":
-    case "timetz":
-    case "time with time zone":
-    case "tsvector":
-    case "tsquery":
-      typ = factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
-      break;
-    // Geometric types - postgres.js returns these as objects, not strings
-    case "point":
-    case "line":
-    case "lseg":
-    case "box":
-    case "path":
-    case "polygon":
-    case "circle":
-      throw new Error(
-        `Unrecognized PostgreSQL type: "${originalTypeName}". ` +
-          `Please add support for this type in sqlc-gen-typescript/src/drivers/postgres.ts`,
-      );
-    default:
-      throw new Error(
-        `Unrecognized PostgreSQL type: "${originalTypeName}" for column "${column.name || "unknown"}". ` +
-          `This usually means sqlc couldn't infer the type. ` +
-          `Try adding an explicit cast like "sqlc.arg(${column.name})::text" or "sqlc.narg('${column.name}')" in your query. ` +
-          `If this is a valid PostgreSQL type that needs support, please add it to sqlc-gen-typescript/src/drivers/postgres.ts`,
-      );
-  }
+/**
+ * The `types` option for postgres() that reads and writes int8 values in the
+ * configured representation. postgres.js derives the int8[] parser from it.
+ */
+function int8Types(mode: Int64Mode) {
+  const parse = { number: "Number(value)", bigint: "BigInt(value)", string: "value" }[mode];
+  return `
+// Pass to postgres() as the types option: postgres(url, { types })
+export const types = {
+    int8: {
+        to: 20,
+        from: [20],
+        serialize: (value: bigint | number | string) => String(value),
+        parse: (value: string) => ${parse},
+    },
+};`;
+}
 
-  if (column.isArray || column.arrayDims > 0) {
-    let dims = Math.max(column.arrayDims || 1);
-    for (let i = 0; i < dims; i++) {
-      typ = factory.createArrayTypeNode(typ);
-    }
-  }
+export function columnImports(ctx: Context, column: Column): TypeImport[] {
+  return pgColumnImports(ctx, column);
+}
 
-  if (column.notNull) {
-    return typ;
-  }
-  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+// Tagged templates are prepared unless the connection disables it, and
+// unprepared queries are sent with sql.unsafe()
+export function supportsPrepare(_prepare: boolean): boolean {
+  return true;
 }
 
-export function preamble() {
-  return [
+export function preamble(ctx: Context, queries: Query[]) {
+  // Row and RowList are only needed to type :execresult results
+  const names = ["Sql", "TransactionSql"];
+  if (queries.some((query) => query.cmd === ":execresult")) {
+    names.unshift("Row", "RowList");
+  }
+  const nodes: Node[] = [
     factory.createImportDeclaration(
       undefined,
       factory.createImportClause(
         true, // type-only import
         undefined,
-        factory.createNamedImports([
-          factory.createImportSpecifier(false, undefined, factory.createIdentifier("Sql")),
-        ]),
+        factory.createNamedImports(
+          names.map((name) =>
+            factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+          ),
+        ),
       ),
       factory.createStringLiteral("postgres"),
       undefined,
     ),
+    ...pgHelperImports(ctx, queries),
   ];
-}
-
-function funcParamsDecl(iface: string | undefined, params: Parameter[]) {
-  let funcParams = [
-    factory.createParameterDeclaration(
-      undefined,
-      undefined,
-      factory.createIdentifier("sql"),
+  if (ctx.options.int64 !== undefined) {
+    nodes.push(sourceNode(int8Types(ctx.options.int64)));
+  }
+  // The type of the `sql` argument: functions take a connection or the client
+  // of a transaction:
+  //   type Client = Sql | TransactionSql;
+  // Bigint parameters only type-check against a client created with the
+  // exported `types`, which the alias describes:
+  //   type Client = Sql<{ int8: bigint }> | TransactionSql<{ int8: bigint }>;
+  const clientTypes = () =>
+    ctx.options.int64 === "bigint"
+      ? [
+          factory.createTypeLiteralNode([
+            factory.createPropertySignature(
+              undefined,
+              factory.createIdentifier("int8"),
+              undefined,
+              factory.createKeywordTypeNode(SyntaxKind.BigIntKeyword),
+            ),
+          ]),
+        ]
+      : undefined;
+  nodes.push(
+    factory.createTypeAliasDeclaration(
       undefined,
-      factory.createTypeReferenceNode(factory.createIdentifier("Sql"), undefined),
+      factory.createIdentifier("Client"),
       undefined,
+      factory.createUnionTypeNode([
+        factory.createTypeReferenceNode(factory.createIdentifier("Sql"), clientTypes()),
+        factory.createTypeReferenceNode(factory.createIdentifier("TransactionSql"), clientTypes()),
+      ]),
     ),
-  ];
-
-  if (iface && params.length > 0) {
-    funcParams.push(
-      factory.createParameterDeclaration(
-        undefined,
-        undefined,
-        factory.createIdentifier("args"),
-        undefined,
-        factory.createTypeReferenceNode(factory.createIdentifier(iface), undefined),
-        undefined,
-      ),
-    );
+  );
+  if (queries.some((query) => query.cmd === ":copyfrom")) {
+    nodes.push(...copyFromHelpers.map(sourceNode));
   }
-
-  return funcParams;
+  return nodes;
 }
 
-/**
- * Builds a tagged template literal from SQL text and parameters.
- *
- * Takes SQL like "SELECT * FROM foo WHERE id = $1 AND name = $2"
- * and params [{column: {name: "id"}}, {column: {name: "name"}}]
- * and produces: sql`SELECT * FROM foo WHERE id = ${args.id} AND name = ${args.name}`
- */
-function buildTaggedTemplate(queryText: string, params: Parameter[]) {
-  // Parse the SQL to find $1, $2, etc. and split into parts
-  const parts: string[] = [];
-  const expressions: ReturnType<typeof factory.createPropertyAccessExpression>[] = [];
-
-  // Regex to match $1, $2, etc.
-  const paramRegex = /\$(\d+)/g;
-  let lastIndex = 0;
-
-  for (const match of queryText.matchAll(paramRegex)) {
-    // Add the text before this parameter
-    parts.push(queryText.slice(lastIndex, match.index));
-
-    // Get the parameter index (1-based in SQL, 0-based in array)
-    const paramIndex = parseInt(match[1], 10) - 1;
-    const param = params[paramIndex];
-
-    if (param) {
-      expressions.push(
-        factory.createPropertyAccessExpression(
-          factory.createIdentifier("args"),
-          factory.createIdentifier(argName(paramIndex, param.column)),
-        ),
-      );
-    } else {
-      // Fallback if param not found (shouldn't happen)
-      expressions.push(
-        factory.createPropertyAccessExpression(
-          factory.createIdentifier("args"),
-          factory.createIdentifier(`arg${paramIndex}`),
-        ),
-      );
-    }
-
-    lastIndex = (match.index ?? 0) + match[0].length;
-  }
-
-  // Add any remaining text after the last parameter
-  parts.push(queryText.slice(lastIndex));
-
-  // Build the tagged template
-  // sql`part0${expr0}part1${expr1}part2`
-  const head = factory.createTemplateHead(parts[0], parts[0]);
-  const spans = expressions.map((expr, i) => {
-    const isLast = i === expressions.length - 1;
-    const text = parts[i + 1];
-    const literal = isLast
-      ? factory.createTemplateTail(text, text)
-      : factory.createTemplateMiddle(text, text);
-    return factory.createTemplateSpan(expr, literal);
-  });
-
-  // If no parameters, use a no-substitution template
-  if (expressions.length === 0) {
-    return factory.createTaggedTemplateExpression(
-      factory.createIdentifier("sql"),
-      undefined,
-      factory.createNoSubstitutionTemplateLiteral(queryText, queryText),
-    );
-  }
-
-  return factory.createTaggedTemplateExpression(
-    factory.createIdentifier("sql"),
+function funcDecl(
+  funcName: string,
+  funcParams: ParameterDeclaration[],
+  returnType: TypeNode,
+  statements: Statement[],
+) {
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
     undefined,
-    factory.createTemplateExpression(head, spans),
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParams,
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [returnType]),
+    factory.createBlock(statements, true),
+  );
+}
+
+function rowArrayType(returnIface: string) {
+  return factory.createArrayTypeNode(
+    factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
   );
 }
 
 export function execDecl(
+  ctx: Context,
   funcName: string,
   queryText: string,
   argIface: string | undefined,
   params: Parameter[],
 ) {
-  const funcParams = funcParamsDecl(argIface, params);
+  const funcParams = funcParamsDecl("sql", "Client", argIface, params);
 
   return factory.createFunctionDeclaration(
     [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
@@ -339,7 +304,7 @@ export function execDecl(
     factory.createBlock(
       [
         factory.createExpressionStatement(
-          factory.createAwaitExpression(buildTaggedTemplate(queryText, params)),
+          factory.createAwaitExpression(sqlQuery(ctx, queryText, params)),
         ),
       ],
       true,
@@ -348,14 +313,15 @@ export function execDecl(
 }
 
 export function manyDecl(
+  ctx: Context,
   funcName: string,
   queryText: string,
   argIface: string | undefined,
   returnIface: string,
   params: Parameter[],
-  _columns: Column[],
+  columns: Column[],
 ) {
-  const funcParams = funcParamsDecl(argIface, params);
+  const funcParams = funcParamsDecl("sql", "Client", argIface, params);
 
   // Generate: return await sql<ReturnRow[]>`SELECT ...`
   return factory.createFunctionDeclaration(
@@ -372,9 +338,7 @@ export function manyDecl(
     factory.createBlock(
       [
         factory.createReturnStatement(
-          factory.createAwaitExpression(
-            addTypeArgument(buildTaggedTemplate(queryText, params), returnIface, true),
-          ),
+          factory.createAwaitExpression(rowsQuery(ctx, queryText, params, returnIface, columns)),
         ),
       ],
       true,
@@ -382,15 +346,56 @@ export function manyDecl(
   );
 }
 
+export function streamDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  const { query, mapRows } = rowsSource(ctx, queryText, params, returnIface, columns);
+  const rows = factory.createIdentifier("rows");
+
+  // Generate:
+  //   for await (const rows of sql<ReturnRow[]>`SELECT ...`.cursor(batchSize)) {
+  //     yield rows;
+  //   }
+  return streamFuncDecl(funcName, "sql", "Client", argIface, returnIface, params, [
+    factory.createForOfStatement(
+      factory.createToken(SyntaxKind.AwaitKeyword),
+      factory.createVariableDeclarationList(
+        [factory.createVariableDeclaration(rows)],
+        NodeFlags.Const,
+      ),
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(query, factory.createIdentifier("cursor")),
+        undefined,
+        [factory.createIdentifier("batchSize")],
+      ),
+      factory.createBlock(
+        [
+          factory.createExpressionStatement(
+            factory.createYieldExpression(undefined, mapRows === undefined ? rows : mapRows(rows)),
+          ),
+        ],
+        true,
+      ),
+    ),
+  ]);
+}
+
 export function oneDecl(
+  ctx: Context,
   funcName: string,
   queryText: string,
   argIface: string | undefined,
   returnIface: string,
   params: Parameter[],
-  _columns: Column[],
+  columns: Column[],
 ) {
-  const funcParams = funcParamsDecl(argIface, params);
+  const funcParams = funcParamsDecl("sql", "Client", argIface, params);
 
   // Generate:
   //   const rows = await sql<ReturnRow[]>`SELECT ...`
@@ -419,7 +424,7 @@ export function oneDecl(
                 undefined,
                 undefined,
                 factory.createAwaitExpression(
-                  addTypeArgument(buildTaggedTemplate(queryText, params), returnIface, true),
+                  rowsQuery(ctx, queryText, params, returnIface, columns),
                 ),
               ),
             ],
@@ -444,14 +449,136 @@ export function oneDecl(
 }
 
 /**
- * Add a type argument to a tagged template expression.
- * Transforms: sql`...` into sql<Type[]>`...`
+ * Whether the connection returns rows keyed by the Row property names. camelCase
+ * properties rely on transform: postgres.camel; with the other property cases
+ * every property must be the column name as the database returns it.
  */
-function addTypeArgument(
-  taggedTemplate: ReturnType<typeof factory.createTaggedTemplateExpression>,
-  typeName: string,
-  isArray: boolean,
-) {
+function namedRows(ctx: Context, columns: Column[]): boolean {
+  if (columns.some((column) => column.embedTable !== undefined)) {
+    return false;
+  }
+  return (
+    ctx.options.propertyCase === "camel" ||
+    columns.every((column, i) => colName(ctx, i, column) === column.name)
+  );
+}
+
+/**
+ * The query of a function returning rows: sql<Row[]>`...`, and the mapping of
+ * its rows if they need one. Geometric and range columns arrive in their text
+ * form and are parsed after the query:
+ *   rows.map((row) => ({ ...row, location: parsePoint(row.location) }))
+ * Rows whose property names the connection can't return, such as repeated
+ * columns of sqlc.embed() tables, are read positionally instead:
+ *   sql`...`.values() with rows.map((row) => ({ id: row[0], author: { ... } }))
+ */
+function rowsSource(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+  returnIface: string,
+  columns: Column[],
+): { query: Expression; mapRows?: (rows: Expression) => Expression } {
+  const template = sqlQuery(ctx, queryText, params);
+  const decode = pgTextDecoder(ctx, ctx.options.int64 ?? "number");
+  if (!namedRows(ctx, columns)) {
+    return {
+      query: factory.createCallExpression(
+        factory.createPropertyAccessExpression(template, factory.createIdentifier("values")),
+        undefined,
+        [],
+      ),
+      mapRows: (rows) => mapRowsExpr(ctx, rows, columns, decode),
+    };
+  }
+  const query = addTypeArgument(template, returnIface, true);
+  const decoded = columns.flatMap((column, i) => {
+    const name = colName(ctx, i, column);
+    const value = factory.createPropertyAccessExpression(
+      factory.createIdentifier("row"),
+      factory.createIdentifier(name),
+    );
+    const decodedValue = decode(column, value);
+    return decodedValue === value
+      ? []
+      : [factory.createPropertyAssignment(factory.createIdentifier(name), decodedValue)];
+  });
+  if (decoded.length === 0) {
+    return { query };
+  }
+  return {
+    query,
+    mapRows: (rows) =>
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(rows, factory.createIdentifier("map")),
+        undefined,
+        [
+          factory.createArrowFunction(
+            undefined,
+            undefined,
+            [
+              factory.createParameterDeclaration(
+                undefined,
+                undefined,
+                factory.createIdentifier("row"),
+              ),
+            ],
+            undefined,
+            factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+            factory.createParenthesizedExpression(
+              factory.createObjectLiteralExpression(
+                [factory.createSpreadAssignment(factory.createIdentifier("row")), ...decoded],
+                true,
+              ),
+            ),
+          ),
+        ],
+      ),
+  };
+}
+
+/**
+ * Generate: <query>.then((rows) => <mapped rows>), or the query if its rows
+ * need no mapping.
+ */
+function rowsQuery(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+  returnIface: string,
+  columns: Column[],
+): Expression {
+  const { query, mapRows } = rowsSource(ctx, queryText, params, returnIface, columns);
+  if (mapRows === undefined) {
+    return query;
+  }
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(query, factory.createIdentifier("then")),
+    undefined,
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [
+          factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            factory.createIdentifier("rows"),
+          ),
+        ],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        mapRows(factory.createIdentifier("rows")),
+      ),
+    ],
+  );
+}
+
+/**
+ * Add a type argument to the query from sqlQuery().
+ * Transforms: sql`...` into sql<Type[]>`...`, and sql.unsafe(...) into sql.unsafe<Type[]>(...)
+ */
+function addTypeArgument(query: Expression, typeName: string, isArray: boolean) {
   let typeArg: TypeNode = factory.createTypeReferenceNode(
     factory.createIdentifier(typeName),
     undefined,
@@ -460,14 +587,17 @@ function addTypeArgument(
     typeArg = factory.createArrayTypeNode(typeArg);
   }
 
-  return factory.createTaggedTemplateExpression(
-    taggedTemplate.tag,
-    [typeArg],
-    taggedTemplate.template,
-  );
+  if (isCallExpression(query)) {
+    return factory.updateCallExpression(query, query.expression, [typeArg], query.arguments);
+  }
+  if (!isTaggedTemplateExpression(query)) {
+    throw new Error("expected a tagged template or a call");
+  }
+  return factory.createTaggedTemplateExpression(query.tag, [typeArg], query.template);
 }
 
 export function execlastidDecl(
+  _ctx: Context,
   _funcName: string,
   _queryText: string,
   _argIface: string | undefined,
@@ -475,3 +605,228 @@ export function execlastidDecl(
 ): FunctionDeclaration {
   throw new Error("postgres driver does not support :execlastid");
 }
+
+export function execrowsDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  // Generate:
+  //   const result = await sql`UPDATE ...`
+  //   return result.count
+  return funcDecl(
+    funcName,
+    funcParamsDecl("sql", "Client", argIface, params),
+    factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    [
+      factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [
+            factory.createVariableDeclaration(
+              factory.createIdentifier("result"),
+              undefined,
+              undefined,
+              factory.createAwaitExpression(sqlQuery(ctx, queryText, params)),
+            ),
+          ],
+          NodeFlags.Const,
+        ),
+      ),
+      factory.createReturnStatement(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier("result"),
+          factory.createIdentifier("count"),
+        ),
+      ),
+    ],
+  );
+}
+
+export function execresultDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  // Generate: return await sql`...`, typed as the RowList postgres.js resolves to
+  return funcDecl(
+    funcName,
+    funcParamsDecl("sql", "Client", argIface, params),
+    factory.createTypeReferenceNode(factory.createIdentifier("RowList"), [rowArrayType("Row")]),
+    [
+      factory.createReturnStatement(
+        factory.createAwaitExpression(sqlQuery(ctx, queryText, params)),
+      ),
+    ],
+  );
+}
+
+/*
+ * Batch functions issue one query per element of `batch`. postgres.js
+ * pipelines queries sent together on a connection; wrap the call in
+ * `sql.begin()` to run the batch in a single transaction.
+ */
+
+export function batchexecDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  batchIface: string,
+  params: Parameter[],
+) {
+  // Generate: await Promise.all(batch.map((args) => sql`...`))
+  return funcDecl(
+    funcName,
+    batchParamsDecl("sql", "Client", batchIface),
+    factory.createKeywordTypeNode(SyntaxKind.VoidKeyword),
+    [
+      factory.createExpressionStatement(
+        factory.createAwaitExpression(
+          promiseAllExpr(mapBatchExpr(sqlQuery(ctx, queryText, params))),
+        ),
+      ),
+    ],
+  );
+}
+
+export function batchmanyDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  batchIface: string,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate: return await Promise.all(batch.map((args) => sql<ReturnRow[]>`...`))
+  return funcDecl(
+    funcName,
+    batchParamsDecl("sql", "Client", batchIface),
+    factory.createArrayTypeNode(rowArrayType(returnIface)),
+    [
+      factory.createReturnStatement(
+        factory.createAwaitExpression(
+          promiseAllExpr(mapBatchExpr(rowsQuery(ctx, queryText, params, returnIface, columns))),
+        ),
+      ),
+    ],
+  );
+}
+
+export function batchoneDecl(
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  batchIface: string,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   const results = await Promise.all(batch.map((args) => sql<ReturnRow[]>`...`))
+  //   return results.map((rows) => rows[0] ?? null)
+  return funcDecl(
+    funcName,
+    batchParamsDecl("sql", "Client", batchIface),
+    factory.createArrayTypeNode(
+      factory.createParenthesizedType(
+        factory.createUnionTypeNode([
+          factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+          factory.createLiteralTypeNode(factory.createNull()),
+        ]),
+      ),
+    ),
+    [
+      factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [
+            factory.createVariableDeclaration(
+              factory.createIdentifier("results"),
+              undefined,
+              undefined,
+              factory.createAwaitExpression(
+                promiseAllExpr(
+                  mapBatchExpr(rowsQuery(ctx, queryText, params, returnIface, columns)),
+                ),
+              ),
+            ),
+          ],
+          NodeFlags.Const,
+        ),
+      ),
+      factory.createReturnStatement(
+        factory.createCallExpression(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("results"),
+            factory.createIdentifier("map"),
+          ),
+          undefined,
+          [
+            factory.createArrowFunction(
+              undefined,
+              undefined,
+              [
+                factory.createParameterDeclaration(
+                  undefined,
+                  undefined,
+                  factory.createIdentifier("rows"),
+                ),
+              ],
+              undefined,
+              factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+              factory.createBinaryExpression(
+                factory.createElementAccessExpression(
+                  factory.createIdentifier("rows"),
+                  factory.createNumericLiteral("0"),
+                ),
+                factory.createToken(SyntaxKind.QuestionQuestionToken),
+                factory.createNull(),
+              ),
+            ),
+          ],
+        ),
+      ),
+    ],
+  );
+}
+
+export function copyfromDecl(
+  ctx: Context,
+  funcName: string,
+  table: Identifier,
+  batchIface: string,
+  params: Parameter[],
+) {
+  // Generate:
+  //   return await copyFrom(sql, "COPY \"authors\" (\"name\", \"bio\") FROM STDIN",
+  //     batch.map((args) => [args.name, args.bio]))
+  // JSON values are written as their JSON text, which copyText passes on as is
+  const columns = params.map((param) => quoteIdent(param.column?.name ?? ""));
+  const statement = `COPY ${quoteIdent(table.schema, table.name)} (${columns.join(", ")}) FROM STDIN`;
+  return funcDecl(
+    funcName,
+    batchParamsDecl("sql", "Client", batchIface),
+    factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    [
+      factory.createReturnStatement(
+        factory.createAwaitExpression(
+          factory.createCallExpression(factory.createIdentifier("copyFrom"), undefined, [
+            factory.createIdentifier("sql"),
+            factory.createStringLiteral(statement),
+            mapBatchExpr(
+              factory.createArrayLiteralExpression(
+                paramValues(ctx, params, jsonParamEncoder(pgParamEncoder(ctx))),
+                false,
+              ),
+            ),
+          ]),
+        ),
+      ),
+    ],
+  );
+}
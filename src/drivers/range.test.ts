@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+
+import { Context } from "../context";
+import { Column, Identifier } from "../gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS } from "../options";
+import { importNodes } from "../testing";
+import { convertedRangeType, rangeFileNodes, rangeType } from "./range";
+
+function column(type: string) {
+  return new Column({
+    name: "during",
+    type: new Identifier({ name: type }),
+    table: new Identifier({ name: "bookings" }),
+  });
+}
+
+describe("rangeType", () => {
+  it("finds the bound type of ranges and multiranges", () => {
+    expect(rangeType(column("int4range"))).toEqual({ bound: "int4", multirange: false });
+    expect(rangeType(column("pg_catalog.tstzrange"))).toEqual({
+      bound: "timestamp",
+      multirange: false,
+    });
+    expect(rangeType(column("DATEMULTIRANGE"))).toEqual({ bound: "date", multirange: true });
+    expect(rangeType(column("int4"))).toBeUndefined();
+    expect(rangeType(undefined)).toBeUndefined();
+  });
+});
+
+describe("convertedRangeType", () => {
+  it("leaves overridden columns alone", () => {
+    const ctx: Context = {
+      options: {
+        ...DEFAULT_OPTIONS,
+        overrides: [{ column: "bookings.during", nullable: false, tsType: "string" }],
+      },
+      defaultSchema: "public",
+      enums: new Map(),
+      composites: new Map(),
+      jsonTypes: new Map(),
+      models: new Map(),
+    };
+    expect(convertedRangeType(ctx, column("tsrange"))).toBeUndefined();
+    expect(convertedRangeType({ ...ctx, options: DEFAULT_OPTIONS }, column("tsrange"))).toEqual({
+      bound: "timestamp",
+      multirange: false,
+    });
+  });
+});
+
+// Import the generated range.ts
+const range = await importNodes<Record<string, (...args: unknown[]) => unknown>>(
+  rangeFileNodes(),
+  "range.ts",
+);
+
+describe("range.ts", () => {
+  const text = (value: string) => value;
+  const bounds = (
+    lower: unknown,
+    upper: unknown,
+    lowerInclusive = true,
+    upperInclusive = false,
+  ) => ({
+    lower,
+    upper,
+    lowerInclusive,
+    upperInclusive,
+    empty: false,
+  });
+
+  it("parses and formats bounded ranges", () => {
+    const parsed = range.parseRange("[1,10)", Number);
+    expect(parsed).toEqual(bounds(1, 10));
+    expect(range.formatRange(parsed)).toBe('["1","10")');
+    expect(range.parseRange(range.formatRange(parsed), Number)).toEqual(parsed);
+  });
+
+  it("unescapes quoted bounds", () => {
+    const parsed = range.parseRange('("a \\"b\\" c","d\\\\e"]', text);
+    expect(parsed).toEqual(bounds('a "b" c', "d\\e", false, true));
+    expect(range.parseRange('["x""y",z)', text)).toEqual(bounds('x"y', "z"));
+    expect(range.parseRange('["",",")', text)).toEqual(bounds("", ","));
+    expect(range.parseRange(range.formatRange(parsed), text)).toEqual(parsed);
+  });
+
+  it("reads empty and unbounded ranges", () => {
+    const empty = range.parseRange("empty", Number);
+    expect(empty).toEqual({
+      lower: null,
+      upper: null,
+      lowerInclusive: false,
+      upperInclusive: false,
+      empty: true,
+    });
+    expect(range.formatRange(empty)).toBe("empty");
+    expect(range.parseRange("(,5]", Number)).toEqual(bounds(null, 5, false, true));
+    expect(range.parseRange("[5,)", Number)).toEqual(bounds(5, null));
+    expect(range.parseRange("(,)", Number)).toEqual(bounds(null, null, false, false));
+    expect(range.formatRange(bounds(null, null, false, false))).toBe("(,)");
+  });
+
+  it("parses timestamp bounds", () => {
+    const parsed = range.parseRange(
+      '["2024-01-01 10:00:00+02","2024-01-02 00:00:00+00")',
+      range.parseTimestamp,
+    );
+    expect(parsed).toEqual(
+      bounds(new Date("2024-01-01T08:00:00Z"), new Date("2024-01-02T00:00:00Z")),
+    );
+    expect(range.parseRange(range.formatRange(parsed), range.parseTimestamp)).toEqual(parsed);
+  });
+
+  it("parses and formats multiranges", () => {
+    const parsed = range.parseMultirange('{[1,3),["5 ]",)}', text);
+    expect(parsed).toEqual([bounds("1", "3"), bounds("5 ]", null)]);
+    expect(range.formatMultirange(parsed)).toBe('{["1","3"),["5 ]",)}');
+    expect(range.parseMultirange(range.formatMultirange(parsed), text)).toEqual(parsed);
+    expect(range.parseMultirange("{}", text)).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * PostgreSQL range and multirange types for the PostgreSQL drivers.
+ *
+ * Values are typed with the generic Range<T> of a generated range.ts module,
+ * which also holds the functions that read the text form the client libraries
+ * return and write the text form PostgreSQL accepts for parameters. Bounds use
+ * the same types as the scalar columns of their element type.
+ */
+
+import { Expression, ImportDeclaration, Node, SyntaxKind, TypeNode, factory } from "typescript";
+
+import { Context } from "../context";
+import { Column, Query } from "../gen/plugin/codegen_pb";
+import { Int64Mode, TypeImport } from "../options";
+import { findOverride } from "../overrides";
+import { int64Type, rowColumns, sourceNode } from "./utils";
+
+export const RANGE_FILE = "range";
+
+type BoundKind = "int4" | "int8" | "numeric" | "timestamp" | "date";
+
+interface RangeType {
+  bound: BoundKind;
+  multirange: boolean;
+}
+
+const RANGE_TYPES = new Map<string, RangeType>([
+  ["int4range", { bound: "int4", multirange: false }],
+  ["int8range", { bound: "int8", multirange: false }],
+  ["numrange", { bound: "numeric", multirange: false }],
+  ["tsrange", { bound: "timestamp", multirange: false }],
+  ["tstzrange", { bound: "timestamp", multirange: false }],
+  ["daterange", { bound: "date", multirange: false }],
+  ["int4multirange", { bound: "int4", multirange: true }],
+  ["int8multirange", { bound: "int8", multirange: true }],
+  ["nummultirange", { bound: "numeric", multirange: true }],
+  ["tsmultirange", { bound: "timestamp", multirange: true }],
+  ["tstzmultirange", { bound: "timestamp", multirange: true }],
+  ["datemultirange", { bound: "date", multirange: true }],
+]);
+
+export function rangeType(column: Column | undefined): RangeType | undefined {
+  const typeName = column?.type?.name.toLowerCase() ?? "";
+  const name = typeName.startsWith("pg_catalog.") ? typeName.slice("pg_catalog.".length) : typeName;
+  return RANGE_TYPES.get(name);
+}
+
+/**
+ * The range type of a column whose values the generated code converts, i.e.
+ * a range column without an override.
+ */
+export function convertedRangeType(ctx: Context, column: Column | undefined) {
+  if (findOverride(ctx.options.overrides, column)) {
+    return undefined;
+  }
+  return rangeType(column);
+}
+
+function boundType(bound: BoundKind, int8: Int64Mode): TypeNode {
+  switch (bound) {
+    case "int4":
+      return factory.createKeywordTypeNode(SyntaxKind.NumberKeyword);
+    case "int8":
+      return int64Type(int8);
+    case "numeric":
+      return factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+    case "timestamp":
+    case "date":
+      return factory.createTypeReferenceNode(factory.createIdentifier("Date"), undefined);
+  }
+}
+
+/**
+ * Generate Range<T> or Multirange<T>; int8 bounds are typed like int8 columns.
+ */
+export function rangeTypeNode(range: RangeType, int8: Int64Mode): TypeNode {
+  return factory.createTypeReferenceNode(
+    factory.createIdentifier(range.multirange ? "Multirange" : "Range"),
+    [boundType(range.bound, int8)],
+  );
+}
+
+export function rangeTypeImport(range: RangeType): TypeImport {
+  return {
+    from: `./${RANGE_FILE}`,
+    name: range.multirange ? "Multirange" : "Range",
+    default: false,
+  };
+}
+
+// Function that parses the text of a bound
+function boundParser(bound: BoundKind, int8: Int64Mode): string {
+  switch (bound) {
+    case "int4":
+      return "Number";
+    case "int8":
+      return { number: "Number", bigint: "BigInt", string: "String" }[int8];
+    case "numeric":
+      return "String";
+    case "timestamp":
+      return "parseTimestamp";
+    case "date":
+      return "parseDate";
+  }
+}
+
+/**
+ * Generate: parseRange(value, Number) or parseMultirange(value, parseTimestamp)
+ */
+export function parseRangeExpr(range: RangeType, int8: Int64Mode, value: Expression): Expression {
+  return factory.createCallExpression(
+    factory.createIdentifier(range.multirange ? "parseMultirange" : "parseRange"),
+    undefined,
+    [value, factory.createIdentifier(boundParser(range.bound, int8))],
+  );
+}
+
+/**
+ * Generate: formatRange(value) or formatMultirange(value)
+ */
+export function formatRangeExpr(range: RangeType, value: Expression): Expression {
+  return factory.createCallExpression(
+    factory.createIdentifier(range.multirange ? "formatMultirange" : "formatRange"),
+    undefined,
+    [value],
+  );
+}
+
+/**
+ * Import the parse and format functions the queries of a file call:
+ * import { formatRange, parseRange, parseTimestamp } from "./range";
+ */
+export function rangeImports(ctx: Context, queries: Query[]): ImportDeclaration[] {
+  const names = new Set<string>();
+  for (const query of queries) {
+    for (const column of rowColumns(ctx, query.columns)) {
+      const range = convertedRangeType(ctx, column);
+      if (range !== undefined) {
+        names.add(range.multirange ? "parseMultirange" : "parseRange");
+        if (range.bound === "timestamp" || range.bound === "date") {
+          names.add(boundParser(range.bound, "number"));
+        }
+      }
+    }
+    for (const param of query.params) {
+      const range = convertedRangeType(ctx, param.column);
+      if (range !== undefined) {
+        names.add(range.multirange ? "formatMultirange" : "formatRange");
+      }
+    }
+  }
+  if (names.size === 0) {
+    return [];
+  }
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        false,
+        undefined,
+        factory.createNamedImports(
+          [...names]
+            .sort()
+            .map((name) =>
+              factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+            ),
+        ),
+      ),
+      factory.createStringLiteral(`./${RANGE_FILE}`),
+      undefined,
+    ),
+  ];
+}
+
+// Contents of range.ts; each entry is printed as its own node
+const rangeModule = [
+  String.raw`
+// A range of values; a null bound is unbounded. Empty ranges have no bounds.
+export interface Range<T> {
+    lower: T | null;
+    upper: T | null;
+    lowerInclusive: boolean;
+    upperInclusive: boolean;
+    empty: boolean;
+}`,
+  String.raw`
+export type Multirange<T> = Range<T>[];`,
+  String.raw`
+// Timestamps with a time zone offset, e.g. "2024-01-01 10:00:00+02", or in local time
+export function parseTimestamp(text: string): Date {
+    return new Date(text.replace(" ", "T").replace(/([+-]\d\d)$/, "$1:00"));
+}`,
+  String.raw`
+export function parseDate(text: string): Date {
+    return new Date(text);
+}`,
+  String.raw`
+// Split the text between the brackets of a range into its two bounds
+function rangeBounds(text: string): (string | null)[] {
+    const bounds: (string | null)[] = [];
+    let i = 0;
+    while (bounds.length < 2) {
+        if (text[i] === '"') {
+            let bound = "";
+            i++;
+            while (i < text.length) {
+                if (text[i] === "\\") {
+                    bound += text[i + 1];
+                    i += 2;
+                } else if (text[i] === '"' && text[i + 1] === '"') {
+                    bound += '"';
+                    i += 2;
+                } else if (text[i] === '"') {
+                    i++;
+                    break;
+                } else {
+                    bound += text[i];
+                    i++;
+                }
+            }
+            bounds.push(bound);
+        } else {
+            const comma = text.indexOf(",", i);
+            const end = bounds.length === 0 && comma !== -1 ? comma : text.length;
+            const bound = text.slice(i, end);
+            bounds.push(bound === "" ? null : bound);
+            i = end;
+        }
+        i++;
+    }
+    return bounds;
+}`,
+  String.raw`
+export function parseRange<T>(value: string | Range<T>, parseBound: (text: string) => T): Range<T> {
+    if (typeof value !== "string") {
+        return value;
+    }
+    if (value === "empty") {
+        return { lower: null, upper: null, lowerInclusive: false, upperInclusive: false, empty: true };
+    }
+    const [lower, upper] = rangeBounds(value.slice(1, -1));
+    return {
+        lower: lower === null ? null : parseBound(lower),
+        upper: upper === null ? null : parseBound(upper),
+        lowerInclusive: value[0] === "[",
+        upperInclusive: value[value.length - 1] === "]",
+        empty: false,
+    };
+}`,
+  String.raw`
+export function parseMultirange<T>(value: string | Multirange<T>, parseBound: (text: string) => T): Multirange<T> {
+    if (typeof value !== "string") {
+        return value;
+    }
+    const ranges: Range<T>[] = [];
+    let start = -1;
+    let quoted = false;
+    for (let i = 1; i < value.length - 1; i++) {
+        const c = value[i];
+        if (quoted) {
+            if (c === "\\") {
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (start === -1 && (c === "[" || c === "(")) {
+            start = i;
+        } else if (start !== -1 && (c === "]" || c === ")")) {
+            ranges.push(parseRange(value.slice(start, i + 1), parseBound));
+            start = -1;
+        }
+    }
+    return ranges;
+}`,
+  String.raw`
+function boundText(value: unknown): string {
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return '"' + text.replace(/["\\]/g, "\\$&") + '"';
+}`,
+  String.raw`
+export function formatRange<T>(range: Range<T>): string {
+    if (range.empty) {
+        return "empty";
+    }
+    return (
+        (range.lowerInclusive ? "[" : "(") +
+        (range.lower === null ? "" : boundText(range.lower)) +
+        "," +
+        (range.upper === null ? "" : boundText(range.upper)) +
+        (range.upperInclusive ? "]" : ")")
+    );
+}`,
+  String.raw`
+export function formatMultirange<T>(ranges: Multirange<T>): string {
+    return "{" + ranges.map((range) => formatRange(range)).join(",") + "}";
+}`,
+];
+
+export function rangeFileNodes(): Node[] {
+  return rangeModule.map(sourceNode);
+}
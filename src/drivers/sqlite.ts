@@ -0,0 +1,347 @@
+/**
+ * Code generation shared by the SQLite drivers (better-sqlite3, bun:sqlite).
+ *
+ * Both prepare the query text with its ? placeholders unchanged, bind the
+ * arguments positionally and read result rows as arrays, which are mapped onto
+ * the Row interfaces by position. The clients are synchronous; the generated
+ * functions are still async so they share a signature with the other drivers.
+ *
+ * A driver describes how its client prepares statements and reads raw rows in
+ * a SqliteClient and passes it to the functions of this module.
+ */
+
+import { SyntaxKind, NodeFlags, TypeNode, factory, Expression, Statement } from "typescript";
+
+import { Context } from "../context";
+import { Parameter, Column, Query } from "../gen/plugin/codegen_pb";
+import { Driver } from "./driver";
+import { SqliteTypeMapping, sqliteColumnType, sqliteInt64Decoder } from "./sqlitetypes";
+import {
+  firstRowStatements,
+  funcParamsDecl,
+  int64Conversion,
+  int64Type,
+  mapRowsExpr,
+  placeholderQueryText,
+  placeholderValues,
+} from "./utils";
+
+export interface SqliteClient extends SqliteTypeMapping {
+  // The module Database is imported from
+  module: string;
+  // The type of :execresult results, imported from the module
+  resultType: string;
+  // Generate the statement of a query text, e.g. database.prepare(<text>)
+  prepare(ctx: Context, text: Expression): Expression;
+  // Generate the call reading raw rows from stmt: all of them, or the first
+  // one or undefined, e.g. stmt.raw(true).all(<args>)
+  rawRows(method: "all" | "get", args: Expression[]): Expression;
+}
+
+// Arguments of the Driver functions the SQLite drivers pass through
+export type ExecArgs = Parameters<Driver["execDecl"]>;
+export type RowsArgs = Parameters<Driver["manyDecl"]>;
+
+export function columnType(client: SqliteClient, ctx: Context, column?: Column): TypeNode {
+  return sqliteColumnType(ctx, column, { blob: client.blob });
+}
+
+// SQLite statements are always prepared
+export function supportsPrepare(prepare: boolean): boolean {
+  return prepare;
+}
+
+export function preamble(client: SqliteClient, queries: Query[]) {
+  // The result type is only needed to type :execresult results
+  const names = ["Database"];
+  if (queries.some((query) => query.cmd === ":execresult")) {
+    names.push(client.resultType);
+  }
+  return [
+    factory.createImportDeclaration(
+      undefined,
+      factory.createImportClause(
+        true, // type-only import
+        undefined,
+        factory.createNamedImports(
+          names.map((name) =>
+            factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+          ),
+        ),
+      ),
+      factory.createStringLiteral(client.module),
+      undefined,
+    ),
+  ];
+}
+
+/**
+ * Generate: const stmt = database.prepare(`SELECT ...`);
+ * The text expands the placeholders of sqlc.slice() parameters.
+ */
+export function stmtDecl(
+  client: SqliteClient,
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+) {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [
+        factory.createVariableDeclaration(
+          factory.createIdentifier("stmt"),
+          undefined,
+          undefined,
+          client.prepare(ctx, placeholderQueryText(ctx, queryText, params)),
+        ),
+      ],
+      NodeFlags.Const,
+    ),
+  );
+}
+
+/**
+ * Generate: stmt.run(args.a, args.b, ...)
+ */
+function runCall(ctx: Context, params: Parameter[]): Expression {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier("stmt"),
+      factory.createIdentifier("run"),
+    ),
+    undefined,
+    placeholderValues(ctx, params),
+  );
+}
+
+export function anyRowType() {
+  return factory.createArrayTypeNode(factory.createKeywordTypeNode(SyntaxKind.AnyKeyword));
+}
+
+function funcDecl(
+  funcName: string,
+  argIface: string | undefined,
+  params: Parameter[],
+  returnType: TypeNode,
+  statements: Statement[],
+) {
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    factory.createIdentifier(funcName),
+    undefined,
+    funcParamsDecl("database", "Database", argIface, params),
+    factory.createTypeReferenceNode(factory.createIdentifier("Promise"), [returnType]),
+    factory.createBlock(statements, true),
+  );
+}
+
+export function execDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  return funcDecl(
+    funcName,
+    argIface,
+    params,
+    factory.createKeywordTypeNode(SyntaxKind.VoidKeyword),
+    [
+      stmtDecl(client, ctx, queryText, params),
+      factory.createExpressionStatement(runCall(ctx, params)),
+    ],
+  );
+}
+
+/**
+ * Generate a function that runs the statement and returns (part of) its result.
+ */
+function runResultDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+  returnType: TypeNode,
+  returnExpr: (result: Expression) => Expression,
+) {
+  // Generate:
+  //   const result = stmt.run(...);
+  //   return <returnExpr>;
+  return funcDecl(funcName, argIface, params, returnType, [
+    stmtDecl(client, ctx, queryText, params),
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            factory.createIdentifier("result"),
+            undefined,
+            undefined,
+            runCall(ctx, params),
+          ),
+        ],
+        NodeFlags.Const,
+      ),
+    ),
+    factory.createReturnStatement(returnExpr(factory.createIdentifier("result"))),
+  ]);
+}
+
+export function execlastidDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  // Generate: return Number(result.lastInsertRowid);
+  const mode = ctx.options.int64 ?? "number";
+  return runResultDecl(
+    client,
+    ctx,
+    funcName,
+    queryText,
+    argIface,
+    params,
+    int64Type(mode),
+    (result) =>
+      int64Conversion(mode)(
+        factory.createPropertyAccessExpression(result, factory.createIdentifier("lastInsertRowid")),
+      ),
+  );
+}
+
+export function execrowsDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  // Generate: return result.changes;
+  return runResultDecl(
+    client,
+    ctx,
+    funcName,
+    queryText,
+    argIface,
+    params,
+    factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+    (result) => factory.createPropertyAccessExpression(result, factory.createIdentifier("changes")),
+  );
+}
+
+export function execresultDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  params: Parameter[],
+) {
+  // Generate: return result;
+  return runResultDecl(
+    client,
+    ctx,
+    funcName,
+    queryText,
+    argIface,
+    params,
+    factory.createTypeReferenceNode(factory.createIdentifier(client.resultType), undefined),
+    (result) => result,
+  );
+}
+
+export function manyDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   const rows = stmt.raw(true).all(...) as any[][];
+  //   return rows.map((row) => ({ ... }));
+  return funcDecl(
+    funcName,
+    argIface,
+    params,
+    factory.createArrayTypeNode(
+      factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+    ),
+    [
+      stmtDecl(client, ctx, queryText, params),
+      factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [
+            factory.createVariableDeclaration(
+              factory.createIdentifier("rows"),
+              undefined,
+              undefined,
+              factory.createAsExpression(
+                client.rawRows("all", placeholderValues(ctx, params)),
+                factory.createArrayTypeNode(anyRowType()),
+              ),
+            ),
+          ],
+          NodeFlags.Const,
+        ),
+      ),
+      factory.createReturnStatement(
+        mapRowsExpr(ctx, factory.createIdentifier("rows"), columns, sqliteInt64Decoder(ctx)),
+      ),
+    ],
+  );
+}
+
+export function oneDecl(
+  client: SqliteClient,
+  ctx: Context,
+  funcName: string,
+  queryText: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  columns: Column[],
+) {
+  // Generate:
+  //   const row = stmt.raw(true).get(...) as any[] | undefined;
+  //   if (row === undefined) { return null; }
+  //   return { ... };
+  return funcDecl(
+    funcName,
+    argIface,
+    params,
+    factory.createUnionTypeNode([
+      factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+      factory.createLiteralTypeNode(factory.createNull()),
+    ]),
+    [
+      stmtDecl(client, ctx, queryText, params),
+      ...firstRowStatements(
+        ctx,
+        factory.createAsExpression(
+          client.rawRows("get", placeholderValues(ctx, params)),
+          factory.createUnionTypeNode([
+            anyRowType(),
+            factory.createKeywordTypeNode(SyntaxKind.UndefinedKeyword),
+          ]),
+        ),
+        columns,
+        sqliteInt64Decoder(ctx),
+      ),
+    ],
+  );
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "bun:test";
+
+import { affinity } from "./sqlitetypes";
+
+describe("affinity", () => {
+  it("follows SQLite's column affinity rules", () => {
+    expect(affinity("INTEGER")).toBe("INTEGER");
+    expect(affinity("bigint")).toBe("INTEGER");
+    expect(affinity("VARCHAR(255)")).toBe("TEXT");
+    expect(affinity("clob")).toBe("TEXT");
+    expect(affinity("BLOB")).toBe("BLOB");
+    expect(affinity("")).toBe("BLOB");
+    expect(affinity("DOUBLE PRECISION")).toBe("REAL");
+    expect(affinity("DECIMAL(10,5)")).toBe("NUMERIC");
+  });
+
+  it("checks INT before the other rules", () => {
+    // "POINT" contains "INT", so SQLite gives it INTEGER affinity
+    expect(affinity("FLOATING POINT")).toBe("INTEGER");
+  });
+});
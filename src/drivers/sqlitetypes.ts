@@ -0,0 +1,133 @@
+/**
+ * SQLite type mapping shared by the SQLite drivers (better-sqlite3, bun:sqlite).
+ *
+ * SQLite columns have a type affinity rather than a strict type. The declared
+ * type name is mapped to an affinity using the rules from
+ * https://www.sqlite.org/datatype3.html#determination_of_column_affinity
+ * with a few well-known declared types special-cased to match what the
+ * drivers actually return.
+ */
+
+import { SyntaxKind, TypeNode, factory } from "typescript";
+
+import { Context } from "../context";
+import { Column } from "../gen/plugin/codegen_pb";
+import { findOverride } from "../overrides";
+import { ColumnDecoder, convertColumnValue, int64Conversion, int64Type } from "./utils";
+
+export interface SqliteTypeMapping {
+  // The class the client library uses for BLOB values
+  blob: "Buffer" | "Uint8Array";
+}
+
+type Affinity = "INTEGER" | "TEXT" | "BLOB" | "REAL" | "NUMERIC";
+
+export function affinity(typeName: string): Affinity {
+  const upper = typeName.toUpperCase();
+  if (upper.includes("INT")) {
+    return "INTEGER";
+  }
+  if (upper.includes("CHAR") || upper.includes("CLOB") || upper.includes("TEXT")) {
+    return "TEXT";
+  }
+  if (upper.includes("BLOB") || upper === "") {
+    return "BLOB";
+  }
+  if (upper.includes("REAL") || upper.includes("FLOA") || upper.includes("DOUB")) {
+    return "REAL";
+  }
+  return "NUMERIC";
+}
+
+/**
+ * The JavaScript value the drivers return for a column, before any int64
+ * conversion. INTEGER affinity columns hold 64-bit integers.
+ */
+type SqliteValue = "any" | "string" | "number" | "int64" | "blob";
+
+function sqliteValue(typeName: string): SqliteValue {
+  switch (typeName) {
+    // sqlc could not infer a type, e.g. for expressions
+    case "any":
+      return "any";
+    // Date/time values are stored as ISO-8601 text by SQLite's date functions
+    case "date":
+    case "datetime":
+    case "timestamp":
+    case "time":
+    // JSON is stored as text
+    case "json":
+      return "string";
+    // Booleans are stored as the integers 0 and 1 and returned as numbers
+    case "bool":
+    case "boolean":
+      return "number";
+  }
+  switch (affinity(typeName)) {
+    case "TEXT":
+      return "string";
+    case "BLOB":
+      return "blob";
+    case "INTEGER":
+      return "int64";
+    case "REAL":
+    case "NUMERIC":
+      return "number";
+  }
+}
+
+export function sqliteColumnType(
+  ctx: Context,
+  column: Column | undefined,
+  mapping: SqliteTypeMapping,
+): TypeNode {
+  if (column === undefined || column.type === undefined) {
+    return factory.createKeywordTypeNode(SyntaxKind.AnyKeyword);
+  }
+
+  let typ: TypeNode;
+  switch (sqliteValue(column.type.name.toLowerCase())) {
+    case "any":
+      typ = factory.createKeywordTypeNode(SyntaxKind.AnyKeyword);
+      break;
+    case "string":
+      typ = factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+      break;
+    case "blob":
+      typ = factory.createTypeReferenceNode(factory.createIdentifier(mapping.blob), undefined);
+      break;
+    case "int64":
+      typ = int64Type(ctx.options.int64 ?? "number");
+      break;
+    case "number":
+      typ = factory.createKeywordTypeNode(SyntaxKind.NumberKeyword);
+      break;
+  }
+
+  if (column.notNull) {
+    return typ;
+  }
+  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+}
+
+/**
+ * With int64 set to bigint or string the statements read integers as bigint
+ * (safe integers), so INTEGER columns are converted to the configured
+ * representation and other numeric columns back to numbers.
+ */
+export function sqliteInt64Decoder(ctx: Context): ColumnDecoder {
+  const mode = ctx.options.int64 ?? "number";
+  return (column, value) => {
+    if (mode === "number" || findOverride(ctx.options.overrides, column)) {
+      return value;
+    }
+    switch (sqliteValue(column.type?.name.toLowerCase() ?? "any")) {
+      case "int64":
+        return convertColumnValue(column, value, int64Conversion(mode));
+      case "number":
+        return convertColumnValue(column, value, int64Conversion("number"));
+      default:
+        return value;
+    }
+  };
+}
@@ -0,0 +1,343 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EmitHint,
+  Expression,
+  NewLineKind,
+  Node,
+  ScriptKind,
+  ScriptTarget,
+  SyntaxKind,
+  createPrinter,
+  createSourceFile,
+  factory,
+} from "typescript";
+
+import { Context } from "../context";
+import {
+  Column,
+  CompositeType,
+  Enum,
+  Identifier,
+  Parameter,
+  Query,
+  Table,
+} from "../gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS, Options } from "../options";
+import {
+  catalogTypeName,
+  colName,
+  commentLines,
+  getCompositeName,
+  getEnumName,
+  isQueryAnnotation,
+  isStreamed,
+  jsonParamEncoder,
+  paramValues,
+  placeholderQueryText,
+  queryPrepare,
+  replaceSliceIn,
+  rowObjectDecl,
+  slicePredicate,
+  sliceTaggedTemplate,
+  streamAnnotated,
+  withDoc,
+} from "./utils";
+
+const ctx: Context = {
+  options: DEFAULT_OPTIONS,
+  defaultSchema: "public",
+  enums: new Map([
+    ["level", new Enum({ name: "level" })],
+    ["audit.level", new Enum({ name: "level" })],
+  ]),
+  composites: new Map([["audit.address", new CompositeType({ name: "address" })]]),
+  jsonTypes: new Map(),
+  models: new Map(),
+};
+
+function column(schema: string, name: string) {
+  return new Column({ name: "c", type: new Identifier({ schema, name }) });
+}
+
+describe("getEnumName", () => {
+  it("resolves enums by schema", () => {
+    expect(getEnumName(ctx, column("", "level"))).toBe("level");
+    expect(getEnumName(ctx, column("public", "level"))).toBe("level");
+    expect(getEnumName(ctx, column("audit", "level"))).toBe("audit.level");
+    expect(getEnumName(ctx, column("", "audit.level"))).toBe("audit.level");
+  });
+
+  it("ignores other types", () => {
+    expect(getEnumName(ctx, column("", "text"))).toBeNull();
+    expect(getEnumName(ctx, column("billing", "level"))).toBeNull();
+    expect(getEnumName(ctx, undefined)).toBeNull();
+  });
+});
+
+describe("getCompositeName", () => {
+  it("resolves composite types by schema", () => {
+    expect(getCompositeName(ctx, column("audit", "address"))).toBe("audit.address");
+    expect(getCompositeName(ctx, column("", "address"))).toBeNull();
+    expect(getCompositeName(ctx, column("audit", "level"))).toBeNull();
+  });
+});
+
+describe("catalogTypeName", () => {
+  it("prefixes types outside the default schema", () => {
+    expect(catalogTypeName("author_status")).toBe("AuthorStatus");
+    expect(catalogTypeName("audit.log_level")).toBe("AuditLogLevel");
+  });
+});
+
+describe("withDoc", () => {
+  function printDoc(lines: string[]) {
+    const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+    const node = withDoc(
+      factory.createTypeAliasDeclaration(
+        undefined,
+        "T",
+        undefined,
+        factory.createKeywordTypeNode(SyntaxKind.StringKeyword),
+      ),
+      lines,
+    );
+    return createPrinter({ newLine: NewLineKind.LineFeed }).printNode(
+      EmitHint.Unspecified,
+      node,
+      file,
+    );
+  }
+
+  it("prints one line on a single line and more as a block", () => {
+    expect(printDoc([])).toBe("type T = string;");
+    expect(printDoc(["An author"])).toBe("/** An author */\ntype T = string;");
+    expect(printDoc(["Get an author.", "", "@sql"])).toBe(
+      "/**\n * Get an author.\n *\n * @sql\n */\ntype T = string;",
+    );
+  });
+
+  it("escapes the end of the comment", () => {
+    expect(printDoc(["a */ b"])).toBe("/** a *\\/ b */\ntype T = string;");
+  });
+});
+
+describe("commentLines", () => {
+  it("splits comments into lines", () => {
+    expect(commentLines("")).toEqual([]);
+    expect(commentLines("  \n")).toEqual([]);
+    expect(commentLines("Full name\r\nas printed\n")).toEqual(["Full name", "as printed"]);
+  });
+});
+
+describe("isStreamed", () => {
+  const annotated = new Query({ cmd: ":many", comments: [" List authors.", " @stream"] });
+
+  it("streams annotated :many queries", () => {
+    expect(streamAnnotated(annotated)).toBe(true);
+    expect(isStreamed(ctx, annotated)).toBe(true);
+    expect(isStreamed(ctx, new Query({ cmd: ":many", comments: [" @streams"] }))).toBe(false);
+  });
+
+  it("streams every :many query with emit_streams", () => {
+    const streams = { ...ctx, options: { ...DEFAULT_OPTIONS, emitStreams: true } };
+    expect(isStreamed(streams, new Query({ cmd: ":many" }))).toBe(true);
+    expect(isStreamed(streams, new Query({ cmd: ":one" }))).toBe(false);
+  });
+});
+
+describe("queryPrepare", () => {
+  const query = (...comments: string[]) => new Query({ comments });
+
+  it("reads the annotation of a query, or else the prepare option", () => {
+    const unprepared = { ...ctx, options: { ...DEFAULT_OPTIONS, prepare: false } };
+    expect(queryPrepare(ctx, query(" List authors."))).toBeUndefined();
+    expect(queryPrepare(unprepared, query(" List authors."))).toBe(false);
+    expect(queryPrepare(unprepared, query(" @prepared"))).toBe(true);
+    expect(queryPrepare(ctx, query(" @unprepared"))).toBe(false);
+  });
+
+  it("rejects both annotations", () => {
+    expect(() => queryPrepare(ctx, query(" @prepared", " @unprepared"))).toThrow(
+      /cannot be used together/,
+    );
+  });
+});
+
+describe("isQueryAnnotation", () => {
+  it("recognizes the annotations of the generator", () => {
+    expect(isQueryAnnotation(" @paginate cursor=id")).toBe(true);
+    expect(isQueryAnnotation(" @stream")).toBe(true);
+    expect(isQueryAnnotation("@prepared ")).toBe(true);
+    expect(isQueryAnnotation(" @unprepared")).toBe(true);
+    expect(isQueryAnnotation(" @paginated list")).toBe(false);
+    expect(isQueryAnnotation(" Streams @stream rows.")).toBe(false);
+  });
+});
+
+describe("sqlc.slice", () => {
+  const a = new Parameter({ number: 1, column: new Column({ name: "a" }) });
+  const ids = new Parameter({
+    number: 2,
+    column: new Column({ name: "ids", isSqlcSlice: true }),
+  });
+  const encode = (_column: Column, value: Expression) => value;
+
+  const print = (node: Node) =>
+    createPrinter().printNode(
+      EmitHint.Expression,
+      node,
+      createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS),
+    );
+
+  it("expands ? placeholders at runtime", () => {
+    const text = placeholderQueryText(ctx, "SELECT 1 WHERE id IN (/*SLICE:ids*/?)", [ids]);
+    expect(print(text)).toBe(
+      '`SELECT 1 WHERE id IN (/*SLICE:ids*/?)`.replace("id IN (/*SLICE:ids*/?)", args.ids.length > 0 ? "id IN (" + args.ids.map(() => "?").join(",") + ")" : "FALSE")',
+    );
+  });
+
+  it("writes the predicate of an empty list as FALSE, or TRUE for NOT IN", () => {
+    const text = placeholderQueryText(ctx, "SELECT 1 WHERE a.id not in (/*SLICE:ids*/?)", [ids]);
+    expect(print(text)).toBe(
+      '`SELECT 1 WHERE a.id not in (/*SLICE:ids*/?)`.replace("a.id not in (/*SLICE:ids*/?)", args.ids.length > 0 ? "a.id NOT IN (" + args.ids.map(() => "?").join(",") + ")" : "TRUE")',
+    );
+    expect(print(sliceTaggedTemplate(ctx, "WHERE a = $1 AND id in ( $2 )", [a, ids], encode))).toBe(
+      "sql `WHERE a = ${args.a} AND ${args.ids.length > 0 ? sql `id IN ${sql(args.ids)}` : sql `FALSE`}`",
+    );
+    expect(print(sliceTaggedTemplate(ctx, "WHERE id NOT IN ($2)", [a, ids], encode))).toBe(
+      "sql `WHERE ${args.ids.length > 0 ? sql `id NOT IN ${sql(args.ids)}` : sql `TRUE`}`",
+    );
+  });
+
+  it("finds the operand of IN", () => {
+    const operand = (text: string) => slicePredicate(text, ids, "$2").operand;
+    expect(operand('WHERE "a"."User ID" IN ($2)')).toBe('"a"."User ID"');
+    expect(operand("WHERE `id` IN ($2)")).toBe("`id`");
+    expect(operand("WHERE lower(name) IN ($2)")).toBe("lower(name)");
+    expect(operand("WHERE (a, b) IN ($2)")).toBe("(a, b)");
+    expect(slicePredicate("WHERE x = 1 AND xid IN ($2)", ids, "$2").text).toBe("xid IN ($2)");
+  });
+
+  it("rewrites IN ($n) of PostgreSQL queries", () => {
+    expect(
+      replaceSliceIn("WHERE id NOT IN ($2)", ids, (p, not) => `${not ? "<> ALL" : "= ANY"}(${p})`),
+    ).toBe("WHERE id <> ALL($2)");
+  });
+
+  it("rejects slices outside of IN", () => {
+    expect(() => sliceTaggedTemplate(ctx, "WHERE id = ANY($2)", [a, ids], encode)).toThrow(
+      'sqlc.slice() parameter "ids" must be used as IN (sqlc.slice(...))',
+    );
+  });
+});
+
+describe("rowObjectDecl", () => {
+  const authors = new Identifier({ name: "authors" });
+  const embedCtx: Context = {
+    ...ctx,
+    models: new Map([
+      [
+        "public.authors",
+        {
+          name: "Author",
+          schema: "public",
+          table: new Table({ rel: authors }),
+          columns: [
+            new Column({ name: "id", notNull: true, table: authors }),
+            new Column({ name: "full_name", table: authors }),
+          ],
+        },
+      ],
+    ]),
+  };
+
+  function printRow(embedNotNull: boolean) {
+    const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+    const columns = [
+      new Column({ name: "title" }),
+      new Column({ name: "authors", notNull: embedNotNull, embedTable: authors }),
+    ];
+    return createPrinter({ newLine: NewLineKind.LineFeed }).printNode(
+      EmitHint.Expression,
+      rowObjectDecl(embedCtx, columns, "row"),
+      file,
+    );
+  }
+
+  it("folds the columns of embedded tables into the model", () => {
+    expect(printRow(true)).toBe(
+      "{\n    title: row[0],\n    author: {\n        id: row[1],\n        fullName: row[2]\n    }\n}",
+    );
+    expect(printRow(false)).toContain("author: row[1] === null ? null : {");
+  });
+});
+
+describe("colName", () => {
+  it("cases names as configured", () => {
+    const named = (propertyCase: Options["propertyCase"]) => ({
+      ...ctx,
+      options: { ...DEFAULT_OPTIONS, propertyCase },
+    });
+    const createdAt = new Column({ name: "created_At" });
+    expect(colName(named("camel"), 0, createdAt)).toBe("createdAt");
+    expect(colName(named("snake"), 0, new Column({ name: "createdAt" }))).toBe("created_at");
+    expect(colName(named("preserve"), 0, createdAt)).toBe("created_At");
+    expect(colName(named("snake"), 2)).toBe("col_2");
+  });
+});
+
+describe("paramValues", () => {
+  it("sends omitted optional parameters as null", () => {
+    const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+    const optional = { ...ctx, options: { ...DEFAULT_OPTIONS, optionalNullableParams: true } };
+    const params = [
+      new Parameter({ number: 1, column: new Column({ name: "id", notNull: true }) }),
+      new Parameter({ number: 2, column: new Column({ name: "bio" }) }),
+    ];
+    const print = (encode?: (column: Column, value: Expression) => Expression) =>
+      paramValues(optional, params, encode).map((value) =>
+        createPrinter().printNode(EmitHint.Expression, value, file),
+      );
+    expect(print()).toEqual(["args.id", "args.bio ?? null"]);
+    expect(
+      print((column, value) =>
+        column.notNull
+          ? value
+          : factory.createCallExpression(factory.createIdentifier("f"), undefined, [value]),
+      ),
+    ).toEqual(["args.id", "args.bio === undefined ? null : f(args.bio)"]);
+    expect(
+      paramValues(ctx, params).map((value) =>
+        createPrinter().printNode(EmitHint.Expression, value, file),
+      ),
+    ).toEqual(["args.id", "args.bio"]);
+  });
+});
+
+describe("jsonParamEncoder", () => {
+  it("sends JSON arguments as their JSON text", () => {
+    const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+    const params = [
+      new Parameter({ number: 1, column: new Column({ name: "tags", type: { name: "jsonb" } }) }),
+      new Parameter({
+        number: 2,
+        column: new Column({
+          name: "docs",
+          notNull: true,
+          isArray: true,
+          type: { name: "pg_catalog.json" },
+        }),
+      }),
+      new Parameter({ number: 3, column: new Column({ name: "name", type: { name: "text" } }) }),
+    ];
+    expect(
+      paramValues(ctx, params, jsonParamEncoder()).map((value) =>
+        createPrinter().printNode(EmitHint.Expression, value, file),
+      ),
+    ).toEqual([
+      "args.tags === null ? null : JSON.stringify(args.tags)",
+      "args.docs.map((v: any) => JSON.stringify(v))",
+      "args.name",
+    ]);
+  });
+});
@@ -1,18 +1,1060 @@
-import { Column } from "../gen/plugin/codegen_pb";
+import {
+  Expression,
+  Node,
+  NodeFlags,
+  ScriptKind,
+  ScriptTarget,
+  SourceFile,
+  Statement,
+  SyntaxKind,
+  TemplateLiteral,
+  TypeNode,
+  addSyntheticLeadingComment,
+  createSourceFile,
+  factory,
+} from "typescript";
 
-// https://stackoverflow.com/questions/40710628/how-to-convert-snake-case-to-camelcase
-export function fieldName(prefix: string, index: number, column?: Column): string {
+import { Context } from "../context";
+import { Column, Parameter, Query } from "../gen/plugin/codegen_pb";
+import { isJsonColumn } from "../jsontypes";
+import { Model } from "../models";
+import { Int64Mode } from "../options";
+
+/**
+ * The property name of a column or parameter in the configured case. Unnamed
+ * ones are numbered, e.g. col_0.
+ */
+export function fieldName(ctx: Context, prefix: string, index: number, column?: Column): string {
   let name = `${prefix}_${index}`;
   if (column) {
     name = column.name;
   }
-  return name.toLowerCase().replace(/([_][a-z])/g, (group) => group.toUpperCase().replace("_", ""));
+  switch (ctx.options.propertyCase) {
+    case "camel":
+      // https://stackoverflow.com/questions/40710628/how-to-convert-snake-case-to-camelcase
+      return name
+        .toLowerCase()
+        .replace(/([_][a-z])/g, (group) => group.toUpperCase().replace("_", ""));
+    case "snake":
+      return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+    case "preserve":
+      return name;
+  }
+}
+
+export function argName(ctx: Context, index: number, column?: Column): string {
+  return fieldName(ctx, "arg", index, column);
+}
+
+export function colName(ctx: Context, index: number, column?: Column): string {
+  return fieldName(ctx, "col", index, column);
+}
+
+/**
+ * Convert snake_case to PascalCase
+ */
+export function pascalCase(str: string): string {
+  return str
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+    .join("");
+}
+
+/**
+ * The name a column type has in the catalog maps of the context: unqualified
+ * in the default schema, qualified elsewhere, e.g. "audit.level".
+ */
+function catalogKey(ctx: Context, column?: Column): string | null {
+  if (column === undefined || column.type === undefined) {
+    return null;
+  }
+  let typeName = column.type.name.toLowerCase();
+  const schema = column.type.schema.toLowerCase();
+  if (schema !== "" && !typeName.includes(".")) {
+    typeName = `${schema}.${typeName}`;
+  }
+  const defaultPrefix = `${ctx.defaultSchema.toLowerCase()}.`;
+  if (typeName.startsWith(defaultPrefix)) {
+    typeName = typeName.slice(defaultPrefix.length);
+  }
+  return typeName;
+}
+
+/**
+ * Check if a column type is an enum and return the enum name if so. Enums
+ * outside the default schema are returned qualified, e.g. "audit.level".
+ */
+export function getEnumName(ctx: Context, column?: Column): string | null {
+  const key = catalogKey(ctx, column);
+  return key !== null && ctx.enums.has(key) ? key : null;
+}
+
+/**
+ * Check if a column type is a composite type and return its name if so,
+ * qualified like enum names.
+ */
+export function getCompositeName(ctx: Context, column?: Column): string | null {
+  const key = catalogKey(ctx, column);
+  return key !== null && ctx.composites.has(key) ? key : null;
+}
+
+/**
+ * The TypeScript name of an enum or composite type, prefixed with its schema
+ * outside the default schema: audit.log_level -> AuditLogLevel.
+ */
+export function catalogTypeName(name: string): string {
+  return pascalCase(name.replace(".", "_"));
+}
+
+/**
+ * Builds the parameter list shared by every generated query function:
+ * the client argument followed by the Args interface, if any.
+ */
+export function funcParamsDecl(
+  clientName: string,
+  clientType: string,
+  iface: string | undefined,
+  params: Parameter[],
+) {
+  const funcParams = [
+    factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      factory.createIdentifier(clientName),
+      undefined,
+      factory.createTypeReferenceNode(factory.createIdentifier(clientType), undefined),
+      undefined,
+    ),
+  ];
+
+  if (iface && params.length > 0) {
+    funcParams.push(
+      factory.createParameterDeclaration(
+        undefined,
+        undefined,
+        factory.createIdentifier("args"),
+        undefined,
+        factory.createTypeReferenceNode(factory.createIdentifier(iface), undefined),
+        undefined,
+      ),
+    );
+  }
+
+  return funcParams;
+}
+
+/**
+ * Builds a tagged template literal from SQL text and parameters.
+ *
+ * Takes SQL like "SELECT * FROM foo WHERE id = $1 AND name = $2"
+ * and params [{column: {name: "id"}}, {column: {name: "name"}}]
+ * and produces: sql`SELECT * FROM foo WHERE id = ${args.id} AND name = ${args.name}`
+ */
+export function buildTaggedTemplate(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+  encode?: ParamEncoder,
+) {
+  // Parse the SQL to find $1, $2, etc. and split into parts
+  const parts: string[] = [];
+  const expressions: Expression[] = [];
+
+  // Regex to match $1, $2, etc.
+  const paramRegex = /\$(\d+)/g;
+  let lastIndex = 0;
+
+  for (const match of queryText.matchAll(paramRegex)) {
+    // Add the text before this parameter
+    parts.push(queryText.slice(lastIndex, match.index));
+
+    // Get the parameter index (1-based in SQL, 0-based in array)
+    const paramIndex = parseInt(match[1], 10) - 1;
+    const param = params[paramIndex];
+
+    if (param) {
+      expressions.push(paramValue(ctx, param, paramIndex, encode));
+    } else {
+      // Fallback if param not found (shouldn't happen)
+      expressions.push(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier("args"),
+          factory.createIdentifier(`arg${paramIndex}`),
+        ),
+      );
+    }
+
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+
+  // Add any remaining text after the last parameter
+  parts.push(queryText.slice(lastIndex));
+
+  // Build the tagged template
+  // sql`part0${expr0}part1${expr1}part2`
+  const head = factory.createTemplateHead(parts[0], parts[0]);
+  const spans = expressions.map((expr, i) => {
+    const isLast = i === expressions.length - 1;
+    const text = parts[i + 1];
+    const literal = isLast
+      ? factory.createTemplateTail(text, text)
+      : factory.createTemplateMiddle(text, text);
+    return factory.createTemplateSpan(expr, literal);
+  });
+
+  // If no parameters, use a no-substitution template
+  if (expressions.length === 0) {
+    return factory.createTaggedTemplateExpression(
+      factory.createIdentifier("sql"),
+      undefined,
+      factory.createNoSubstitutionTemplateLiteral(queryText, queryText),
+    );
+  }
+
+  return factory.createTaggedTemplateExpression(
+    factory.createIdentifier("sql"),
+    undefined,
+    factory.createTemplateExpression(head, spans),
+  );
+}
+
+/**
+ * Converts the raw value a client library returns for a column into the value
+ * declared on the Row interface. Returns the expression unchanged when no
+ * conversion is needed.
+ */
+export type ColumnDecoder = (column: Column, value: Expression) => Expression;
+
+function mapArrayDims(
+  value: Expression,
+  dims: number,
+  convert: (value: Expression) => Expression,
+): Expression {
+  if (dims === 0) {
+    return convert(value);
+  }
+  const v = factory.createIdentifier("v");
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(value, factory.createIdentifier("map")),
+    undefined,
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [
+          factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            v,
+            undefined,
+            factory.createKeywordTypeNode(SyntaxKind.AnyKeyword),
+          ),
+        ],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        mapArrayDims(v, dims - 1, convert),
+      ),
+    ],
+  );
+}
+
+/**
+ * Applies `convert` to a column value, element by element for array columns,
+ * and keeps null for nullable columns:
+ *   value === null ? null : value.map((v: any) => convert(v))
+ */
+export function convertColumnValue(
+  column: Column,
+  value: Expression,
+  convert: (value: Expression) => Expression,
+): Expression {
+  const dims = column.isArray || column.arrayDims > 0 ? Math.max(column.arrayDims, 1) : 0;
+  const converted = mapArrayDims(value, dims, convert);
+  if (column.notNull) {
+    return converted;
+  }
+  return factory.createConditionalExpression(
+    factory.createBinaryExpression(
+      value,
+      factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+      factory.createNull(),
+    ),
+    factory.createToken(SyntaxKind.QuestionToken),
+    factory.createNull(),
+    factory.createToken(SyntaxKind.ColonToken),
+    converted,
+  );
+}
+
+/**
+ * The TypeScript type of a 64-bit integer in the given representation.
+ */
+export function int64Type(mode: Int64Mode): TypeNode {
+  switch (mode) {
+    case "number":
+      return factory.createKeywordTypeNode(SyntaxKind.NumberKeyword);
+    case "bigint":
+      return factory.createKeywordTypeNode(SyntaxKind.BigIntKeyword);
+    case "string":
+      return factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+  }
+}
+
+/**
+ * Generate the conversion of a 64-bit integer (number, string or bigint) to
+ * the given representation: BigInt(value), String(value) or Number(value).
+ */
+export function int64Conversion(mode: Int64Mode): (value: Expression) => Expression {
+  const fn = { bigint: "BigInt", string: "String", number: "Number" }[mode];
+  return (value) => factory.createCallExpression(factory.createIdentifier(fn), undefined, [value]);
+}
+
+/**
+ * The model of the table a sqlc.embed() column selects, or undefined for
+ * other columns.
+ */
+export function embeddedModel(ctx: Context, column?: Column): Model | undefined {
+  if (column?.embedTable === undefined) {
+    return undefined;
+  }
+  const table = column.embedTable;
+  const model = ctx.models.get(`${table.schema || ctx.defaultSchema}.${table.name}`.toLowerCase());
+  if (model === undefined) {
+    throw new Error(`embedded table "${table.name}" has no model`);
+  }
+  return model;
+}
+
+/**
+ * The name of a Row property: the column name, or for a sqlc.embed() column
+ * the model name, e.g. author for Author.
+ */
+export function rowFieldName(ctx: Context, index: number, column?: Column): string {
+  const model = embeddedModel(ctx, column);
+  if (model === undefined) {
+    return colName(ctx, index, column);
+  }
+  return model.name[0].toLowerCase() + model.name.slice(1);
+}
+
+/**
+ * The columns of a result row as the database returns them, with the columns
+ * of the embedded table in place of each sqlc.embed() column.
+ */
+export function rowColumns(ctx: Context, columns: Column[]): Column[] {
+  return columns.flatMap((column) => embeddedModel(ctx, column)?.columns ?? [column]);
+}
+
+/**
+ * Builds an object literal that maps a positional result row onto the Row
+ * interface: { id: row[0], name: row[1], ... }
+ * The columns of a sqlc.embed() table are folded into a nested object, which
+ * is null when the table comes from an outer join and has no row:
+ *   { id: row[0], author: row[1] === null ? null : { id: row[1], name: row[2] } }
+ */
+export function rowObjectDecl(
+  ctx: Context,
+  columns: Column[],
+  row: string,
+  decode?: ColumnDecoder,
+) {
+  let index = 0;
+  const element = (i: number) =>
+    factory.createElementAccessExpression(
+      factory.createIdentifier(row),
+      factory.createNumericLiteral(`${i}`),
+    );
+  const field = (column: Column) => {
+    const value = element(index++);
+    return decode ? decode(column, value) : value;
+  };
+  return factory.createObjectLiteralExpression(
+    columns.map((column, i) => {
+      const model = embeddedModel(ctx, column);
+      if (model === undefined) {
+        return factory.createPropertyAssignment(
+          factory.createIdentifier(colName(ctx, i, column)),
+          field(column),
+        );
+      }
+      const start = index;
+      const embedded = factory.createObjectLiteralExpression(
+        model.columns.map((modelColumn, j) =>
+          factory.createPropertyAssignment(
+            factory.createIdentifier(colName(ctx, j, modelColumn)),
+            field(modelColumn),
+          ),
+        ),
+        true,
+      );
+      if (column.notNull) {
+        return factory.createPropertyAssignment(
+          factory.createIdentifier(rowFieldName(ctx, i, column)),
+          embedded,
+        );
+      }
+      // A NOT NULL column of the table is null only if the join found no row
+      const key = model.columns.findIndex((modelColumn) => modelColumn.notNull);
+      const checked = key === -1 ? model.columns.map((_, j) => j) : [key];
+      const absent = checked
+        .map((j) =>
+          factory.createBinaryExpression(
+            element(start + j),
+            factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+            factory.createNull(),
+          ),
+        )
+        .reduce((left, right) =>
+          factory.createBinaryExpression(
+            left,
+            factory.createToken(SyntaxKind.AmpersandAmpersandToken),
+            right,
+          ),
+        );
+      return factory.createPropertyAssignment(
+        factory.createIdentifier(rowFieldName(ctx, i, column)),
+        factory.createConditionalExpression(
+          absent,
+          factory.createToken(SyntaxKind.QuestionToken),
+          factory.createNull(),
+          factory.createToken(SyntaxKind.ColonToken),
+          embedded,
+        ),
+      );
+    }),
+    true,
+  );
+}
+
+/**
+ * Converts an argument into the value the client library sends for its
+ * parameter. Returns the expression unchanged when no conversion is needed.
+ */
+export type ParamEncoder = (column: Column, value: Expression) => Expression;
+
+/**
+ * Encode JSON arguments as their JSON text, and the others with encode. Client
+ * libraries such as pg and mysql2 would otherwise send arrays and objects in
+ * their own formats: JSON.stringify(args.tags)
+ */
+export function jsonParamEncoder(encode?: ParamEncoder): ParamEncoder {
+  return (column, value) => {
+    if (!isJsonColumn(column)) {
+      return encode ? encode(column, value) : value;
+    }
+    return convertColumnValue(column, value, (v) =>
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier("JSON"),
+          factory.createIdentifier("stringify"),
+        ),
+        undefined,
+        [v],
+      ),
+    );
+  };
+}
+
+/**
+ * Whether a parameter is an optional property of Args: a nullable parameter
+ * with the optional_nullable_params option.
+ */
+export function optionalParam(ctx: Context, param: Parameter): boolean {
+  return (
+    ctx.options.optionalNullableParams &&
+    param.column !== undefined &&
+    !param.column.notNull &&
+    !param.column.isSqlcSlice
+  );
+}
+
+/**
+ * The value bound for a parameter. Optional parameters send undefined as null,
+ * which client libraries such as postgres.js require:
+ *   args.bio ?? null
+ *   args.home === undefined ? null : <encoded args.home>
+ */
+function paramValue(
+  ctx: Context,
+  param: Parameter,
+  index: number,
+  encode?: ParamEncoder,
+): Expression {
+  const value = factory.createPropertyAccessExpression(
+    factory.createIdentifier("args"),
+    factory.createIdentifier(argName(ctx, index, param.column)),
+  );
+  const encoded = encode && param.column ? encode(param.column, value) : value;
+  if (!optionalParam(ctx, param)) {
+    return encoded;
+  }
+  if (encoded === value) {
+    return factory.createBinaryExpression(
+      value,
+      factory.createToken(SyntaxKind.QuestionQuestionToken),
+      factory.createNull(),
+    );
+  }
+  return factory.createConditionalExpression(
+    factory.createBinaryExpression(
+      value,
+      factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+      factory.createIdentifier("undefined"),
+    ),
+    factory.createToken(SyntaxKind.QuestionToken),
+    factory.createNull(),
+    factory.createToken(SyntaxKind.ColonToken),
+    encoded,
+  );
+}
+
+/**
+ * Builds the argument values in placeholder order: [args.a, args.b, ...]
+ */
+export function paramValues(ctx: Context, params: Parameter[], encode?: ParamEncoder) {
+  return params.map((param, i) => paramValue(ctx, param, i, encode));
+}
+
+/**
+ * Builds the argument values of a query with ? placeholders, spreading the
+ * lists of sqlc.slice() parameters: [args.a, ...args.ids]
+ */
+export function placeholderValues(ctx: Context, params: Parameter[], encode?: ParamEncoder) {
+  return params.map((param, i) => {
+    const value = paramValue(ctx, param, i, encode);
+    return param.column?.isSqlcSlice ? factory.createSpreadElement(value) : value;
+  });
+}
+
+// The left side of the IN predicate around a sqlc.slice() placeholder: a column,
+// possibly qualified or quoted, a function call of one, or a parenthesized row
+const SLICE_NAME = '(?:[A-Za-z_][\\w$]*|"(?:[^"]|"")*"|`[^`]*`)';
+const SLICE_OPERAND = `(?<![\\w$."\`)])(${SLICE_NAME}(?:\\.${SLICE_NAME})*(?:\\([^()]*\\))?|\\([^()]*\\))`;
+
+/**
+ * The `<operand> [NOT] IN (<placeholder>)` predicate of a sqlc.slice()
+ * parameter. An empty list leaves nothing to compare with, so the generated
+ * code writes the whole predicate as FALSE, or TRUE for NOT IN.
+ */
+export interface SlicePredicate {
+  text: string;
+  operand: string;
+  not: boolean;
+}
+
+export function slicePredicate(
+  queryText: string,
+  param: Parameter,
+  placeholder: string,
+): SlicePredicate {
+  const escaped = placeholder.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(
+    `${SLICE_OPERAND}\\s*\\b(NOT\\s+)?IN\\s*\\(\\s*${escaped}\\s*\\)`,
+    "i",
+  );
+  const match = pattern.exec(queryText);
+  if (match === null) {
+    throw new Error(
+      `sqlc.slice() parameter "${param.column?.name ?? placeholder}" must be used as IN (sqlc.slice(...))`,
+    );
+  }
+  return { text: match[0], operand: match[1], not: match[2] !== undefined };
+}
+
+/**
+ * Generate the text of a query with ? placeholders. sqlc writes the
+ * placeholder of a sqlc.slice() parameter as a SLICE comment followed by ?,
+ * whose predicate is rewritten with one ? per element of the list:
+ *   `...`.replace("id IN (<placeholder>)", args.ids.length > 0 ? "id IN (" + args.ids.map(() => "?").join(",") + ")" : "FALSE")
+ */
+export function placeholderQueryText(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+): Expression {
+  let text: Expression = factory.createNoSubstitutionTemplateLiteral(queryText, queryText);
+  params.forEach((param, i) => {
+    const placeholder = `/*SLICE:${param.column?.name ?? ""}*/?`;
+    if (!param.column?.isSqlcSlice || !queryText.includes(placeholder)) {
+      return;
+    }
+    const predicate = slicePredicate(queryText, param, placeholder);
+    const value = paramValue(ctx, param, i);
+    const marks = factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createCallExpression(
+          factory.createPropertyAccessExpression(value, factory.createIdentifier("map")),
+          undefined,
+          [
+            factory.createArrowFunction(
+              undefined,
+              undefined,
+              [],
+              undefined,
+              factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+              factory.createStringLiteral("?"),
+            ),
+          ],
+        ),
+        factory.createIdentifier("join"),
+      ),
+      undefined,
+      [factory.createStringLiteral(",")],
+    );
+    const list = factory.createBinaryExpression(
+      factory.createBinaryExpression(
+        factory.createStringLiteral(`${predicate.operand} ${predicate.not ? "NOT IN" : "IN"} (`),
+        factory.createToken(SyntaxKind.PlusToken),
+        marks,
+      ),
+      factory.createToken(SyntaxKind.PlusToken),
+      factory.createStringLiteral(")"),
+    );
+    text = factory.createCallExpression(
+      factory.createPropertyAccessExpression(text, factory.createIdentifier("replace")),
+      undefined,
+      [factory.createStringLiteral(predicate.text), sliceConditional(predicate, value, list)],
+    );
+  });
+  return text;
+}
+
+// Generate: value.length > 0 ? list : "FALSE", or "TRUE" for NOT IN
+function sliceConditional(
+  predicate: SlicePredicate,
+  value: Expression,
+  list: Expression,
+  empty: Expression = factory.createStringLiteral(predicate.not ? "TRUE" : "FALSE"),
+): Expression {
+  return factory.createConditionalExpression(
+    factory.createBinaryExpression(
+      factory.createPropertyAccessExpression(value, factory.createIdentifier("length")),
+      factory.createToken(SyntaxKind.GreaterThanToken),
+      factory.createNumericLiteral(0),
+    ),
+    factory.createToken(SyntaxKind.QuestionToken),
+    list,
+    factory.createToken(SyntaxKind.ColonToken),
+    empty,
+  );
+}
+
+/**
+ * Find `IN ($n)` around the placeholder of a sqlc.slice() parameter of a
+ * PostgreSQL query and replace it, e.g. by `= ANY($n)` for a driver that sends
+ * the list as an array. `NOT IN` is replaced as a whole.
+ */
+export function replaceSliceIn(
+  queryText: string,
+  param: Parameter,
+  replace: (placeholder: string, not: boolean) => string,
+): string {
+  const placeholder = `$${param.number}`;
+  const pattern = new RegExp(`\\b(NOT\\s+)?IN\\s*\\(\\s*\\$${param.number}\\s*\\)`, "i");
+  if (!pattern.test(queryText)) {
+    throw new Error(
+      `sqlc.slice() parameter "${param.column?.name ?? placeholder}" must be used as IN (sqlc.slice(...))`,
+    );
+  }
+  return queryText.replace(pattern, (_match, not?: string) =>
+    replace(placeholder, not !== undefined),
+  );
+}
+
+/**
+ * Build the tagged template of a PostgreSQL query for drivers with an sql()
+ * list helper. The predicate of each sqlc.slice() parameter becomes a fragment,
+ * written as FALSE, or TRUE for NOT IN, when the list is empty:
+ *   args.ids.length > 0 ? sql`id IN ${sql(args.ids)}` : sql`FALSE`
+ */
+export function sliceTaggedTemplate(
+  ctx: Context,
+  queryText: string,
+  params: Parameter[],
+  encode: ParamEncoder,
+) {
+  const predicates = new Map<string, SlicePredicate>();
+  let text = queryText;
+  for (const param of params) {
+    if (param.column?.isSqlcSlice) {
+      const predicate = slicePredicate(text, param, `$${param.number}`);
+      predicates.set(param.column.name, predicate);
+      text = text.replace(predicate.text, () => `$${param.number}`);
+    }
+  }
+  const sqlTemplate = (template: TemplateLiteral) =>
+    factory.createTaggedTemplateExpression(factory.createIdentifier("sql"), undefined, template);
+  return buildTaggedTemplate(ctx, text, params, (column, value) => {
+    const predicate = predicates.get(column.name);
+    if (!column.isSqlcSlice || predicate === undefined) {
+      return encode(column, value);
+    }
+    const head = `${predicate.operand} ${predicate.not ? "NOT IN" : "IN"} `;
+    const list = sqlTemplate(
+      factory.createTemplateExpression(factory.createTemplateHead(head, head), [
+        factory.createTemplateSpan(
+          factory.createCallExpression(factory.createIdentifier("sql"), undefined, [value]),
+          factory.createTemplateTail("", ""),
+        ),
+      ]),
+    );
+    const empty = predicate.not ? "TRUE" : "FALSE";
+    return sliceConditional(
+      predicate,
+      value,
+      list,
+      sqlTemplate(factory.createNoSubstitutionTemplateLiteral(empty, empty)),
+    );
+  });
+}
+
+/**
+ * Generate: rows.map((row) => ({ ... }))
+ */
+export function mapRowsExpr(
+  ctx: Context,
+  rows: Expression,
+  columns: Column[],
+  decode?: ColumnDecoder,
+) {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(rows, factory.createIdentifier("map")),
+    undefined,
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [factory.createParameterDeclaration(undefined, undefined, factory.createIdentifier("row"))],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        factory.createParenthesizedExpression(rowObjectDecl(ctx, columns, "row", decode)),
+      ),
+    ],
+  );
+}
+
+/**
+ * Generate:
+ *   const row = <first>;
+ *   if (row === undefined) { return null; }
+ *   return { ... };
+ */
+export function firstRowStatements(
+  ctx: Context,
+  first: Expression,
+  columns: Column[],
+  decode?: ColumnDecoder,
+) {
+  return [
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            factory.createIdentifier("row"),
+            undefined,
+            undefined,
+            first,
+          ),
+        ],
+        NodeFlags.Const,
+      ),
+    ),
+    factory.createIfStatement(
+      factory.createBinaryExpression(
+        factory.createIdentifier("row"),
+        factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+        factory.createIdentifier("undefined"),
+      ),
+      factory.createBlock([factory.createReturnStatement(factory.createNull())], true),
+      undefined,
+    ),
+    factory.createReturnStatement(rowObjectDecl(ctx, columns, "row", decode)),
+  ];
+}
+
+/**
+ * Builds the parameter list of a batch function: the client argument followed
+ * by an array of Args.
+ */
+export function batchParamsDecl(clientName: string, clientType: string, iface: string) {
+  return [
+    factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      factory.createIdentifier(clientName),
+      undefined,
+      factory.createTypeReferenceNode(factory.createIdentifier(clientType), undefined),
+      undefined,
+    ),
+    factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      factory.createIdentifier("batch"),
+      undefined,
+      factory.createArrayTypeNode(
+        factory.createTypeReferenceNode(factory.createIdentifier(iface), undefined),
+      ),
+      undefined,
+    ),
+  ];
+}
+
+/**
+ * Generate: batch.map((args) => <body>)
+ */
+export function mapBatchExpr(body: Expression) {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier("batch"),
+      factory.createIdentifier("map"),
+    ),
+    undefined,
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [
+          factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            factory.createIdentifier("args"),
+          ),
+        ],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        body,
+      ),
+    ],
+  );
+}
+
+/**
+ * Generate: Promise.all(<items>)
+ */
+export function promiseAllExpr(items: Expression) {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier("Promise"),
+      factory.createIdentifier("all"),
+    ),
+    undefined,
+    [items],
+  );
+}
+
+/**
+ * Whether a query is sent as a prepared statement: true with the `@prepared`
+ * annotation in its comments, false with `@unprepared`, and otherwise the
+ * prepare option. Undefined leaves it to the client.
+ */
+export function queryPrepare(ctx: Context, query: Query): boolean | undefined {
+  const annotations = query.comments.map((line) => line.trim());
+  const prepared = annotations.includes("@prepared");
+  const unprepared = annotations.includes("@unprepared");
+  if (prepared && unprepared) {
+    throw new Error("@prepared and @unprepared cannot be used together");
+  }
+  if (prepared || unprepared) {
+    return prepared;
+  }
+  return ctx.options.prepare;
+}
+
+/**
+ * Whether a comment line of a query is an annotation the generator reads:
+ * `@paginate ...`, `@stream`, `@prepared` or `@unprepared`.
+ */
+export function isQueryAnnotation(line: string): boolean {
+  const text = line.trim();
+  return /^@paginate\b/.test(text) || ["@stream", "@prepared", "@unprepared"].includes(text);
+}
+
+/**
+ * Whether a query has the `@stream` annotation in its comments.
+ */
+export function streamAnnotated(query: Query): boolean {
+  return query.comments.some((line) => line.trim() === "@stream");
+}
+
+/**
+ * Whether a stream function is generated for a query: a :many query with the
+ * `@stream` annotation, or any :many query with the emit_streams option.
+ */
+export function isStreamed(ctx: Context, query: Query): boolean {
+  return query.cmd === ":many" && (ctx.options.emitStreams || streamAnnotated(query));
+}
+
+/**
+ * Generate a stream function, which yields the rows of a query in batches of
+ * up to batchSize rows:
+ *   export async function* listAuthorsStream(sql: Client, args: ListAuthorsArgs, batchSize: number = 1000): AsyncGenerator<Author[]> { ... }
+ */
+export function streamFuncDecl(
+  funcName: string,
+  clientName: string,
+  clientType: string,
+  argIface: string | undefined,
+  returnIface: string,
+  params: Parameter[],
+  statements: Statement[],
+) {
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    factory.createToken(SyntaxKind.AsteriskToken),
+    factory.createIdentifier(funcName),
+    undefined,
+    [
+      ...funcParamsDecl(clientName, clientType, argIface, params),
+      factory.createParameterDeclaration(
+        undefined,
+        undefined,
+        factory.createIdentifier("batchSize"),
+        undefined,
+        factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+        factory.createNumericLiteral(1000),
+      ),
+    ],
+    factory.createTypeReferenceNode(factory.createIdentifier("AsyncGenerator"), [
+      factory.createArrayTypeNode(
+        factory.createTypeReferenceNode(factory.createIdentifier(returnIface), undefined),
+      ),
+    ]),
+    factory.createBlock(statements, true),
+  );
+}
+
+/**
+ * Generate statements that collect the rows of an iterable into batches of
+ * batchSize rows and yield each mapped onto the Row interface. `value` reads
+ * the array of a row from the items of the iterable, which are the arrays by
+ * default:
+ *   let rows: any[][] = [];
+ *   for await (const row of <source>) {
+ *     rows.push(<value>);
+ *     if (rows.length === batchSize) { yield rows.map(...); rows = []; }
+ *   }
+ *   if (rows.length > 0) { yield rows.map(...); }
+ */
+export function yieldBatchesStatements(
+  ctx: Context,
+  source: Expression,
+  columns: Column[],
+  decode?: ColumnDecoder,
+  value: Expression = factory.createIdentifier("row"),
+): Statement[] {
+  const rows = factory.createIdentifier("rows");
+  const yieldRows = factory.createExpressionStatement(
+    factory.createYieldExpression(undefined, mapRowsExpr(ctx, rows, columns, decode)),
+  );
+  const rowsLength = factory.createPropertyAccessExpression(
+    rows,
+    factory.createIdentifier("length"),
+  );
+  return [
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            rows,
+            undefined,
+            factory.createArrayTypeNode(
+              factory.createArrayTypeNode(factory.createKeywordTypeNode(SyntaxKind.AnyKeyword)),
+            ),
+            factory.createArrayLiteralExpression([]),
+          ),
+        ],
+        NodeFlags.Let,
+      ),
+    ),
+    factory.createForOfStatement(
+      factory.createToken(SyntaxKind.AwaitKeyword),
+      factory.createVariableDeclarationList(
+        [factory.createVariableDeclaration(factory.createIdentifier("row"))],
+        NodeFlags.Const,
+      ),
+      source,
+      factory.createBlock(
+        [
+          factory.createExpressionStatement(
+            factory.createCallExpression(
+              factory.createPropertyAccessExpression(rows, factory.createIdentifier("push")),
+              undefined,
+              [value],
+            ),
+          ),
+          factory.createIfStatement(
+            factory.createBinaryExpression(
+              rowsLength,
+              factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+              factory.createIdentifier("batchSize"),
+            ),
+            factory.createBlock(
+              [
+                yieldRows,
+                factory.createExpressionStatement(
+                  factory.createBinaryExpression(
+                    rows,
+                    factory.createToken(SyntaxKind.EqualsToken),
+                    factory.createArrayLiteralExpression([]),
+                  ),
+                ),
+              ],
+              true,
+            ),
+          ),
+        ],
+        true,
+      ),
+    ),
+    factory.createIfStatement(
+      factory.createBinaryExpression(
+        rowsLength,
+        factory.createToken(SyntaxKind.GreaterThanToken),
+        factory.createNumericLiteral(0),
+      ),
+      factory.createBlock([yieldRows], true),
+    ),
+  ];
+}
+
+/**
+ * Parses handwritten TypeScript so runtime helpers can be emitted verbatim
+ * next to the generated nodes. printNode() prints the returned file as is.
+ */
+export function sourceNode(source: string): SourceFile {
+  return createSourceFile("helper.ts", source, ScriptTarget.Latest, false, ScriptKind.TS);
+}
+
+/**
+ * Attach a TSDoc comment to a node, on a single line if there is only one.
+ */
+export function withDoc<T extends Node>(node: T, lines: string[]): T {
+  if (lines.length === 0) {
+    return node;
+  }
+  const escaped = lines.map((line) => line.trimEnd().replace(/\*\//g, "*\\/"));
+  const text =
+    escaped.length === 1
+      ? `* ${escaped[0]} `
+      : `*\n${escaped.map((line) => ` *${line ? ` ${line}` : ""}\n`).join("")} `;
+  return addSyntheticLeadingComment(node, SyntaxKind.MultiLineCommentTrivia, text, true);
 }
 
-export function argName(index: number, column?: Column): string {
-  return fieldName("arg", index, column);
+/**
+ * The lines of a catalog comment, without surrounding blank lines.
+ */
+export function commentLines(comment: string): string[] {
+  return comment.trim() === "" ? [] : comment.trim().split(/\r?\n/);
 }
 
-export function colName(index: number, column?: Column): string {
-  return fieldName("col", index, column);
+/**
+ * Quote an identifier for PostgreSQL: "schema"."table"
+ */
+export function quoteIdent(...parts: string[]): string {
+  return parts
+    .filter((part) => part !== "")
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join(".");
 }
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "bun:test";
+
+import { enumKey } from "./enums";
+
+describe("enumKey", () => {
+  it("converts values to PascalCase keys", () => {
+    const used = new Set<string>();
+    expect(enumKey("active", used)).toEqual({ key: "Active", quoted: false });
+    expect(enumKey("in_progress", used)).toEqual({ key: "InProgress", quoted: false });
+    expect(enumKey("on-hold", used)).toEqual({ key: "OnHold", quoted: false });
+    expect(enumKey("Not Started", used)).toEqual({ key: "NotStarted", quoted: false });
+  });
+
+  it("quotes values that do not make a unique identifier", () => {
+    const used = new Set<string>();
+    expect(enumKey("1st", used)).toEqual({ key: "1st", quoted: true });
+    expect(enumKey("", used)).toEqual({ key: "", quoted: true });
+    expect(enumKey("a_b", used)).toEqual({ key: "AB", quoted: false });
+    expect(enumKey("a-b", used)).toEqual({ key: "a-b", quoted: true });
+  });
+
+  it("suffixes quoted keys that are already used", () => {
+    const used = new Set<string>();
+    expect(enumKey("ab", used)).toEqual({ key: "Ab", quoted: false });
+    expect(enumKey("Ab", used)).toEqual({ key: "Ab_2", quoted: true });
+    expect(enumKey("AB", used)).toEqual({ key: "AB", quoted: true });
+    expect(enumKey("a-b", used)).toEqual({ key: "a-b", quoted: true });
+    expect(enumKey("a_b", used)).toEqual({ key: "a_b", quoted: true });
+    expect(enumKey("A_B", used)).toEqual({ key: "A_B", quoted: true });
+    expect(enumKey("a b", used)).toEqual({ key: "a b", quoted: true });
+  });
+});
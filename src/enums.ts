@@ -0,0 +1,149 @@
+/**
+ * Enum declarations for models.ts.
+ *
+ * Each enum is a string-literal union plus runtime values generated from the
+ * catalog, so validation code does not need its own copy of the value list.
+ */
+
+import { Expression, Node, NodeFlags, SyntaxKind, factory } from "typescript";
+
+import { catalogTypeName, commentLines, pascalCase, withDoc } from "./drivers/utils";
+import { Enum } from "./gen/plugin/codegen_pb";
+
+function exportModifier() {
+  return [factory.createToken(SyntaxKind.ExportKeyword)];
+}
+
+function constDecl(name: string, initializer: Expression) {
+  return factory.createVariableStatement(
+    exportModifier(),
+    factory.createVariableDeclarationList(
+      [factory.createVariableDeclaration(name, undefined, undefined, initializer)],
+      NodeFlags.Const,
+    ),
+  );
+}
+
+function asConst(expr: Expression) {
+  return factory.createAsExpression(
+    expr,
+    factory.createTypeReferenceNode(factory.createIdentifier("const"), undefined),
+  );
+}
+
+/**
+ * The object key of an enum value: "in_progress" -> InProgress. Values that
+ * do not make an identifier, or repeat an earlier key, are quoted as they are,
+ * with a suffix if the quoted key is taken too: "Ab" after "ab" -> "Ab_2".
+ */
+export function enumKey(value: string, used: Set<string>): { key: string; quoted: boolean } {
+  const identifier = pascalCase(value.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, ""));
+  if (/^[A-Za-z]/.test(identifier) && !used.has(identifier)) {
+    used.add(identifier);
+    return { key: identifier, quoted: false };
+  }
+  let key = value;
+  for (let i = 2; used.has(key); i++) {
+    key = `${value}_${i}`;
+  }
+  used.add(key);
+  return { key, quoted: true };
+}
+
+/**
+ * Generate the declarations of an enum, e.g. for author_status:
+ *
+ *   export type AuthorStatus = "active" | "inactive";
+ *   export const authorStatusValues = ["active", "inactive"] as const;
+ *   export function isAuthorStatus(value: unknown): value is AuthorStatus { ... }
+ *
+ * With `objects`, also `export const AuthorStatus = Object.freeze({ Active: "active", ... })`.
+ * The comment of the enum documents the type.
+ */
+export function enumDecls(enumName: string, enumDef: Enum, objects: boolean): Node[] {
+  const typeName = catalogTypeName(enumName);
+  const valuesName = `${typeName[0].toLowerCase()}${typeName.slice(1)}Values`;
+  const literals = () => enumDef.vals.map((val) => factory.createStringLiteral(val));
+
+  const nodes: Node[] = [
+    withDoc(
+      factory.createTypeAliasDeclaration(
+        exportModifier(),
+        factory.createIdentifier(typeName),
+        undefined,
+        factory.createUnionTypeNode(
+          literals().map((literal) => factory.createLiteralTypeNode(literal)),
+        ),
+      ),
+      commentLines(enumDef.comment),
+    ),
+    constDecl(valuesName, asConst(factory.createArrayLiteralExpression(literals(), false))),
+    factory.createFunctionDeclaration(
+      exportModifier(),
+      undefined,
+      factory.createIdentifier(`is${typeName}`),
+      undefined,
+      [
+        factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          factory.createIdentifier("value"),
+          undefined,
+          factory.createKeywordTypeNode(SyntaxKind.UnknownKeyword),
+          undefined,
+        ),
+      ],
+      factory.createTypePredicateNode(
+        undefined,
+        factory.createIdentifier("value"),
+        factory.createTypeReferenceNode(factory.createIdentifier(typeName), undefined),
+      ),
+      factory.createBlock(
+        [
+          factory.createReturnStatement(
+            factory.createCallExpression(
+              factory.createPropertyAccessExpression(
+                factory.createIdentifier(valuesName),
+                factory.createIdentifier("includes"),
+              ),
+              undefined,
+              [
+                factory.createAsExpression(
+                  factory.createIdentifier("value"),
+                  factory.createTypeReferenceNode(factory.createIdentifier(typeName), undefined),
+                ),
+              ],
+            ),
+          ),
+        ],
+        true,
+      ),
+    ),
+  ];
+
+  if (objects) {
+    const used = new Set<string>();
+    const properties = enumDef.vals.map((val) => {
+      const { key, quoted } = enumKey(val, used);
+      return factory.createPropertyAssignment(
+        quoted ? factory.createStringLiteral(key) : factory.createIdentifier(key),
+        factory.createStringLiteral(val),
+      );
+    });
+    nodes.push(
+      constDecl(
+        typeName,
+        factory.createCallExpression(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("Object"),
+            factory.createIdentifier("freeze"),
+          ),
+          undefined,
+          [asConst(factory.createObjectLiteralExpression(properties, true))],
+        ),
+      ),
+    );
+  }
+
+  return nodes;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EmitHint,
+  ScriptKind,
+  ScriptTarget,
+  TypeNode,
+  createPrinter,
+  createSourceFile,
+} from "typescript";
+
+import { Context } from "./context";
+import { Catalog, Column, Identifier, Schema, Table } from "./gen/plugin/codegen_pb";
+import { buildJsonTypes, jsonType, typeAnnotations } from "./jsontypes";
+import { DEFAULT_OPTIONS } from "./options";
+
+function print(node: TypeNode): string {
+  const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+  return createPrinter().printNode(EmitHint.Unspecified, node, file);
+}
+
+function column(name: string, extra: Partial<Column> = {}) {
+  return new Column({
+    name,
+    type: new Identifier({ name: "jsonb" }),
+    table: new Identifier({ name: "authors" }),
+    ...extra,
+  });
+}
+
+const catalog = new Catalog({
+  defaultSchema: "public",
+  schemas: [
+    new Schema({
+      name: "public",
+      tables: [
+        new Table({
+          rel: new Identifier({ name: "authors" }),
+          comment: 'Authors\n@type {import("./types").Profile} profile\n@type {string[]} tags',
+          columns: [column("profile"), column("tags", { comment: "@type {Tag[]}" })],
+        }),
+      ],
+    }),
+  ],
+});
+
+const ctx: Context = {
+  options: DEFAULT_OPTIONS,
+  defaultSchema: "public",
+  enums: new Map(),
+  composites: new Map(),
+  jsonTypes: buildJsonTypes(catalog, "public"),
+  models: new Map(),
+};
+
+describe("typeAnnotations", () => {
+  it("reads types with nested braces and the column after them", () => {
+    expect(typeAnnotations("@type {{ a: { b: number } }}")).toEqual([
+      { tsType: "{ a: { b: number } }", column: undefined },
+    ]);
+    expect(typeAnnotations("Settings\n@type {Settings} settings")).toEqual([
+      { tsType: "Settings", column: "settings" },
+    ]);
+    expect(typeAnnotations("no annotation")).toEqual([]);
+  });
+
+  it("rejects unterminated annotations", () => {
+    expect(() => typeAnnotations("@type {{ a: number }")).toThrow(/unterminated @type/);
+  });
+});
+
+describe("buildJsonTypes", () => {
+  it("prefers column comments over table comments", () => {
+    expect(ctx.jsonTypes).toEqual(
+      new Map([
+        ["public.authors.profile", 'import("./types").Profile'],
+        ["public.authors.tags", "Tag[]"],
+      ]),
+    );
+  });
+});
+
+describe("jsonType", () => {
+  it("uses the annotated type of the column", () => {
+    expect(print(jsonType(ctx, column("profile")))).toBe('import("./types").Profile');
+    expect(print(jsonType(ctx, column("p", { originalName: "profile" })))).toBe(
+      'import("./types").Profile',
+    );
+    expect(print(jsonType(ctx, column("data", { comment: "@type {A | B}", isArray: true })))).toBe(
+      "(A | B)",
+    );
+  });
+
+  it("defaults to unknown", () => {
+    expect(print(jsonType(ctx, column("data")))).toBe("unknown");
+    expect(print(jsonType(ctx, column("profile", { table: undefined })))).toBe("unknown");
+  });
+
+  it("rejects invalid types", () => {
+    expect(() => jsonType(ctx, column("data", { comment: "@type {a b}" }))).toThrow(
+      'invalid @type {a b} of column "data"',
+    );
+  });
+});
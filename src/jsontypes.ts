@@ -0,0 +1,124 @@
+/**
+ * TypeScript types of json and jsonb columns from `@type` annotations in
+ * catalog comments:
+ *
+ *   COMMENT ON COLUMN authors.profile IS '@type {{ website: string }}';
+ *   COMMENT ON TABLE authors IS '@type {import("./types").Profile} profile';
+ *
+ * A column comment annotates its own column; in a table comment the column
+ * follows the type. Columns without an annotation are typed `unknown`.
+ */
+
+import { SyntaxKind, TypeNode, factory } from "typescript";
+
+import { Context } from "./context";
+import { Catalog, Column, Identifier } from "./gen/plugin/codegen_pb";
+import { parseTypeText } from "./overrides";
+
+export interface TypeAnnotation {
+  tsType: string;
+  // Word after the type; the annotated column in table comments
+  column?: string;
+}
+
+/**
+ * Find the `@type {Type} column` annotations of a comment. Braces in the type
+ * may nest, so object types can be written inline.
+ */
+export function typeAnnotations(comment: string): TypeAnnotation[] {
+  const annotations: TypeAnnotation[] = [];
+  const tag = /@type\s*\{/g;
+  let match = tag.exec(comment);
+  while (match !== null) {
+    const start = tag.lastIndex;
+    let end = start;
+    for (let depth = 1; depth > 0; end++) {
+      if (end === comment.length) {
+        throw new Error(`unterminated @type annotation in comment ${JSON.stringify(comment)}`);
+      }
+      if (comment[end] === "{") {
+        depth++;
+      } else if (comment[end] === "}") {
+        depth--;
+      }
+    }
+    annotations.push({
+      tsType: comment.slice(start, end - 1).trim(),
+      column: /^[ \t]+([A-Za-z_][\w$]*)/.exec(comment.slice(end))?.[1],
+    });
+    tag.lastIndex = end;
+    match = tag.exec(comment);
+  }
+  return annotations;
+}
+
+function columnKey(defaultSchema: string, table: Identifier, column: string): string {
+  return `${table.schema || defaultSchema}.${table.name}.${column}`.toLowerCase();
+}
+
+/**
+ * Collect the annotated column types of every table in the catalog, keyed by
+ * "schema.table.column". Column comments win over table comments.
+ */
+export function buildJsonTypes(
+  catalog: Catalog | undefined,
+  defaultSchema: string,
+): Map<string, string> {
+  const jsonTypes = new Map<string, string>();
+  for (const schema of catalog?.schemas ?? []) {
+    for (const table of schema.tables) {
+      const rel = table.rel ?? new Identifier({ schema: schema.name });
+      try {
+        for (const { tsType, column } of typeAnnotations(table.comment)) {
+          if (column !== undefined) {
+            jsonTypes.set(columnKey(defaultSchema, rel, column), tsType);
+          }
+        }
+        for (const column of table.columns) {
+          const [annotation] = typeAnnotations(column.comment);
+          if (annotation !== undefined) {
+            jsonTypes.set(columnKey(defaultSchema, rel, column.name), annotation.tsType);
+          }
+        }
+      } catch (err) {
+        throw new Error(
+          `Error in table "${rel.name}": ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+  }
+  return jsonTypes;
+}
+
+// json and jsonb columns, and JSON columns of MySQL
+export function isJsonColumn(column: Column | undefined): boolean {
+  const typeName = column?.type?.name.toLowerCase().replace(/^pg_catalog\./, "") ?? "";
+  return typeName === "json" || typeName === "jsonb";
+}
+
+/**
+ * Generate the type of a json or jsonb column, before arrays and nullability
+ * are applied: its annotated type, or unknown.
+ */
+export function jsonType(ctx: Context, column: Column): TypeNode {
+  const [annotation] = typeAnnotations(column.comment);
+  const tsType =
+    annotation?.tsType ??
+    (column.table === undefined
+      ? undefined
+      : ctx.jsonTypes.get(
+          columnKey(ctx.defaultSchema, column.table, column.originalName || column.name),
+        ));
+  if (tsType === undefined) {
+    return factory.createKeywordTypeNode(SyntaxKind.UnknownKeyword);
+  }
+  const typ = parseTypeText(tsType);
+  if (typ === undefined) {
+    throw new Error(`invalid @type {${tsType}} of column "${column.name}"`);
+  }
+  // Arrays of the type need parentheses around unions, e.g. (A | B)[]
+  if ((column.isArray || column.arrayDims > 0) && typ.kind === SyntaxKind.UnionType) {
+    return factory.createParenthesizedType(typ);
+  }
+  return typ;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  Catalog,
+  Column,
+  CompositeType,
+  Enum,
+  Identifier,
+  Query,
+  Schema,
+  Table,
+} from "./gen/plugin/codegen_pb";
+import { buildModels, embedColumns, findModel, singular } from "./models";
+import { DEFAULT_OPTIONS } from "./options";
+
+function column(name: string, type: string, notNull: boolean) {
+  return new Column({ name, notNull, type: new Identifier({ name: type }) });
+}
+
+function table(schema: string, name: string, columns: Column[]) {
+  return new Table({ rel: new Identifier({ schema, name }), columns });
+}
+
+function catalog(...schemas: Schema[]) {
+  return new Catalog({ defaultSchema: "public", schemas });
+}
+
+const authors = table("public", "authors", [
+  column("id", "bigserial", true),
+  column("name", "text", true),
+  column("bio", "text", false),
+]);
+
+describe("singular", () => {
+  it("singularizes regular plurals", () => {
+    expect(singular("authors")).toBe("author");
+    expect(singular("categories")).toBe("category");
+    expect(singular("boxes")).toBe("box");
+    expect(singular("book_authors")).toBe("book_author");
+  });
+
+  it("keeps words that are already singular", () => {
+    expect(singular("status")).toBe("status");
+    expect(singular("address")).toBe("address");
+    expect(singular("news")).toBe("news");
+    expect(singular("author")).toBe("author");
+  });
+});
+
+describe("buildModels", () => {
+  it("names models after singular tables and prefixes other schemas", () => {
+    const models = buildModels(
+      catalog(
+        new Schema({ name: "public", tables: [authors] }),
+        new Schema({ name: "audit", tables: [table("audit", "logs", [])] }),
+        new Schema({ name: "pg_catalog", tables: [table("pg_catalog", "pg_class", [])] }),
+      ),
+      DEFAULT_OPTIONS,
+    );
+    expect(models.map((m) => m.name)).toEqual(["Author", "AuditLog"]);
+    expect(models[0].columns.every((c) => c.table?.name === "authors")).toBe(true);
+  });
+
+  it("keeps table names with emit_exact_table_names", () => {
+    const models = buildModels(catalog(new Schema({ name: "public", tables: [authors] })), {
+      ...DEFAULT_OPTIONS,
+      emitExactTableNames: true,
+    });
+    expect(models.map((m) => m.name)).toEqual(["Authors"]);
+  });
+
+  it("rejects tables that generate the same model", () => {
+    const tables = [table("public", "author", []), table("public", "authors", [])];
+    expect(() =>
+      buildModels(catalog(new Schema({ name: "public", tables })), DEFAULT_OPTIONS),
+    ).toThrow(/tables "public.author" and "public.authors" both generate the model "Author"/);
+  });
+
+  it("rejects tables that generate the name of an enum or a composite type", () => {
+    const statuses = table("public", "statuses", []);
+    const enums = [new Enum({ name: "status", vals: ["active"] })];
+    expect(() =>
+      buildModels(
+        catalog(new Schema({ name: "public", tables: [statuses], enums })),
+        DEFAULT_OPTIONS,
+      ),
+    ).toThrow(/enum "public.status" and table "public.statuses" both generate "Status"; rename/);
+    expect(
+      buildModels(catalog(new Schema({ name: "public", tables: [statuses], enums })), {
+        ...DEFAULT_OPTIONS,
+        emitExactTableNames: true,
+      }).map((m) => m.name),
+    ).toEqual(["Statuses"]);
+
+    const compositeTypes = [new CompositeType({ name: "address" })];
+    const tables = [table("audit", "addresses", [])];
+    expect(() =>
+      buildModels(catalog(new Schema({ name: "audit", tables, compositeTypes })), DEFAULT_OPTIONS),
+    ).toThrow(
+      /composite type "audit.address" and table "audit.addresses" both generate "AuditAddress"/,
+    );
+  });
+});
+
+describe("findModel", () => {
+  const models = buildModels(
+    catalog(new Schema({ name: "public", tables: [authors] })),
+    DEFAULT_OPTIONS,
+  );
+
+  it("matches the columns of a whole table", () => {
+    expect(findModel(models, "public", models[0].columns)?.name).toBe("Author");
+  });
+
+  it("does not match partial or changed column lists", () => {
+    const [id, name, bio] = models[0].columns;
+    expect(findModel(models, "public", [id, name])).toBeUndefined();
+    expect(findModel(models, "public", [id, bio, name])).toBeUndefined();
+    const nullableName = name.clone();
+    nullableName.notNull = false;
+    expect(findModel(models, "public", [id, nullableName, bio])).toBeUndefined();
+    expect(findModel(models, "public", [])).toBeUndefined();
+  });
+});
+
+describe("embedColumns", () => {
+  function embedNotNull(text: string) {
+    const embed = new Column({ name: "authors", embedTable: new Identifier({ name: "authors" }) });
+    return embedColumns(new Query({ text, columns: [embed] }))[0].notNull;
+  }
+
+  it("marks embedded tables of outer joins nullable", () => {
+    expect(embedNotNull("SELECT 1 FROM books JOIN authors ON true")).toBe(true);
+    expect(embedNotNull("SELECT 1 FROM authors")).toBe(true);
+    expect(embedNotNull("SELECT 1 FROM books LEFT OUTER JOIN public.authors a ON true")).toBe(
+      false,
+    );
+    expect(embedNotNull("SELECT 1 FROM authors RIGHT JOIN books ON true")).toBe(false);
+    expect(
+      embedNotNull("SELECT 1 FROM books LEFT JOIN authors_books ON true JOIN authors ON true"),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Models: one interface per catalog table, emitted into models.ts.
+ *
+ * Queries whose result columns are exactly the columns of a table, such as
+ * `SELECT *` and `RETURNING *`, use the model instead of a per-query Row.
+ * Tables selected with sqlc.embed() become a property of the Row typed as the
+ * model.
+ */
+
+import { catalogTypeName, pascalCase } from "./drivers/utils";
+import { Catalog, Column, Identifier, Query, Table } from "./gen/plugin/codegen_pb";
+import { Options } from "./options";
+
+export const MODELS_FILE = "models";
+
+export interface Model {
+  name: string;
+  // Schema of the table, with the catalog's default schema filled in
+  schema: string;
+  table: Table;
+  // Table columns, each with `table` set so column overrides match them
+  columns: Column[];
+}
+
+// Words that end in "s" in their singular form
+const SINGULAR_ENDINGS = ["ss", "us", "is", "news", "series", "species"];
+
+/**
+ * Singularize an English table name, e.g. authors -> author, categories -> category.
+ * Only the last word of a snake_case name is changed.
+ */
+export function singular(name: string): string {
+  const lower = name.toLowerCase();
+  if (SINGULAR_ENDINGS.some((ending) => lower.endsWith(ending))) {
+    return name;
+  }
+  if (lower.endsWith("ies") && name.length > 4) {
+    return `${name.slice(0, -3)}y`;
+  }
+  if (/(s|x|z|ch|sh)es$/.test(lower)) {
+    return name.slice(0, -2);
+  }
+  if (lower.endsWith("s") && name.length > 1) {
+    return name.slice(0, -1);
+  }
+  return name;
+}
+
+// Skip the system schemas of the catalog
+function userSchemas(catalog: Catalog | undefined) {
+  return (catalog?.schemas ?? []).filter(
+    (schema) => schema.name !== "pg_catalog" && schema.name !== "information_schema",
+  );
+}
+
+/**
+ * The names enums and composite types are declared with in models.ts, mapped
+ * to a description of the type, e.g. Status -> enum "public.status".
+ */
+function typeNames(catalog: Catalog | undefined, defaultSchema: string): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const schema of userSchemas(catalog)) {
+    const types = [
+      ...schema.enums.map((def) => ({ kind: "enum", name: def.name })),
+      ...schema.compositeTypes.map((def) => ({ kind: "composite type", name: def.name })),
+    ];
+    for (const { kind, name } of types) {
+      // Keyed like Context.enums and Context.composites
+      const key =
+        schema.name === "" || schema.name === defaultSchema
+          ? name.toLowerCase()
+          : `${schema.name.toLowerCase()}.${name.toLowerCase()}`;
+      names.set(catalogTypeName(key), `${kind} "${schema.name || defaultSchema}.${name}"`);
+    }
+  }
+  return names;
+}
+
+/**
+ * Build the models of the user-defined tables in the catalog. Tables outside
+ * the default schema are prefixed with their schema, e.g. audit.logs -> AuditLog.
+ * A model may not share its name with another model, or with an enum or a
+ * composite type, since they are all declared in models.ts.
+ */
+export function buildModels(catalog: Catalog | undefined, options: Options): Model[] {
+  const defaultSchema = catalog?.defaultSchema || "public";
+  const models: Model[] = [];
+  const names = new Map<string, string>();
+  const types = typeNames(catalog, defaultSchema);
+
+  for (const schema of userSchemas(catalog)) {
+    for (const table of schema.tables) {
+      const rel = table.rel;
+      if (rel === undefined) {
+        continue;
+      }
+      const schemaName = rel.schema || schema.name || defaultSchema;
+      const tableName = options.emitExactTableNames ? rel.name : singular(rel.name);
+      const name = pascalCase(
+        schemaName === defaultSchema ? tableName : `${schemaName}_${tableName}`,
+      );
+      const qualified = `${schemaName}.${rel.name}`;
+      const existing = names.get(name);
+      if (existing !== undefined) {
+        throw new Error(
+          `sqlc-gen-typescript: tables "${existing}" and "${qualified}" both generate the model "${name}"; ` +
+            `rename one of them or set "emit_exact_table_names: true"`,
+        );
+      }
+      const type = types.get(name);
+      if (type !== undefined) {
+        throw new Error(
+          `sqlc-gen-typescript: ${type} and table "${qualified}" both generate "${name}"; ` +
+            `rename one of them or set "emit_exact_table_names: true"`,
+        );
+      }
+      names.set(name, qualified);
+
+      const columns = table.columns.map((column) => {
+        if (column.table !== undefined) {
+          return column;
+        }
+        const copy = column.clone();
+        copy.table = rel;
+        return copy;
+      });
+      models.push({ name, schema: schemaName, table, columns });
+    }
+  }
+
+  return models;
+}
+
+function sameColumn(model: Model, defaultSchema: string, column: Column, tableColumn: Column) {
+  return (
+    column.table?.name === model.table.rel?.name &&
+    (column.table?.schema || defaultSchema) === model.schema &&
+    column.name === tableColumn.name &&
+    column.type?.name === tableColumn.type?.name &&
+    column.notNull === tableColumn.notNull &&
+    column.isArray === tableColumn.isArray &&
+    column.arrayDims === tableColumn.arrayDims
+  );
+}
+
+/**
+ * Find the model whose table has exactly the given columns, in order.
+ */
+export function findModel(
+  models: Model[],
+  defaultSchema: string,
+  columns: Column[],
+): Model | undefined {
+  if (columns.length === 0) {
+    return undefined;
+  }
+  return models.find(
+    (model) =>
+      model.columns.length === columns.length &&
+      columns.every((column, i) => sameColumn(model, defaultSchema, column, model.columns[i])),
+  );
+}
+
+/**
+ * Key the models by "schema.table", the way sqlc.embed() columns are resolved.
+ */
+export function modelsByTable(models: Model[]): Map<string, Model> {
+  return new Map(
+    models.map((model) => [`${model.schema}.${model.table.rel?.name ?? ""}`.toLowerCase(), model]),
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether a table is on the optional side of an outer join of the query:
+ * joined with LEFT or FULL JOIN, or followed by a RIGHT or FULL JOIN.
+ */
+function outerJoined(queryText: string, table: Identifier): boolean {
+  const name = `(?:[\\w"]+\\.)?"?${escapeRegExp(table.name)}"?(?![\\w"])`;
+  const ref = new RegExp(`(?:\\b(LEFT|FULL)(?:\\s+OUTER)?\\s+)?\\b(?:FROM|JOIN)\\s+${name}`, "i");
+  const match = ref.exec(queryText);
+  if (match === null) {
+    return false;
+  }
+  if (match[1] !== undefined) {
+    return true;
+  }
+  return /\b(RIGHT|FULL)(\s+OUTER)?\s+JOIN\b/i.test(queryText.slice(match.index + match[0].length));
+}
+
+/**
+ * The result columns of a query, with sqlc.embed() columns marked nullable when
+ * their table comes from an outer join. sqlc does not mark embedded tables, so
+ * the joins are read from the query text.
+ */
+export function embedColumns(query: Query): Column[] {
+  return query.columns.map((column) => {
+    if (column.embedTable === undefined) {
+      return column;
+    }
+    const copy = column.clone();
+    copy.notNull = !outerJoined(query.text, column.embedTable);
+    return copy;
+  });
+}
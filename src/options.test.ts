@@ -0,0 +1,208 @@
+import { describe, expect, it } from "bun:test";
+
+import { DEFAULT_OPTIONS, parseOptions } from "./options";
+
+function encode(value: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(value));
+}
+
+describe("parseOptions", () => {
+  it("returns the defaults when no options are given", () => {
+    expect(parseOptions(new Uint8Array(0))).toEqual(DEFAULT_OPTIONS);
+  });
+
+  it("reads known options", () => {
+    expect(parseOptions(encode({ runtime: "bun", driver: "postgres" }))).toEqual({
+      ...DEFAULT_OPTIONS,
+      runtime: "bun",
+      driver: "postgres",
+    });
+  });
+
+  it("reads the int64 mode and leaves it to the driver by default", () => {
+    expect(parseOptions(new Uint8Array(0)).int64).toBeUndefined();
+    expect(parseOptions(encode({ int64: "bigint" })).int64).toBe("bigint");
+    expect(() => parseOptions(encode({ int64: "int" }))).toThrow(
+      /"int64" must be one of "number", "bigint", "string"; got "int"/,
+    );
+  });
+
+  it("reads emit_exact_table_names", () => {
+    expect(parseOptions(encode({ emit_exact_table_names: true })).emitExactTableNames).toBe(true);
+    expect(() => parseOptions(encode({ emit_exact_table_names: "yes" }))).toThrow(
+      /"emit_exact_table_names" must be a boolean/,
+    );
+  });
+
+  it("reads emit_enum_objects", () => {
+    expect(parseOptions(new Uint8Array(0)).emitEnumObjects).toBe(false);
+    expect(parseOptions(encode({ emit_enum_objects: true })).emitEnumObjects).toBe(true);
+  });
+
+  it("reads emit_querier", () => {
+    expect(parseOptions(new Uint8Array(0)).emitQuerier).toBe(false);
+    expect(parseOptions(encode({ emit_querier: true })).emitQuerier).toBe(true);
+  });
+
+  it("reads emit_streams", () => {
+    expect(parseOptions(new Uint8Array(0)).emitStreams).toBe(false);
+    expect(parseOptions(encode({ emit_streams: true })).emitStreams).toBe(true);
+  });
+
+  it("reads prepare", () => {
+    expect(parseOptions(new Uint8Array(0)).prepare).toBeUndefined();
+    expect(parseOptions(encode({ prepare: false })).prepare).toBe(false);
+    expect(() => parseOptions(encode({ prepare: "yes" }))).toThrow(/"prepare" must be a boolean/);
+  });
+
+  it("reads optional_nullable_params", () => {
+    expect(parseOptions(new Uint8Array(0)).optionalNullableParams).toBe(false);
+    expect(parseOptions(encode({ optional_nullable_params: true })).optionalNullableParams).toBe(
+      true,
+    );
+  });
+
+  it("reads validator and validate_args", () => {
+    expect(parseOptions(new Uint8Array(0)).validator).toBeUndefined();
+    expect(parseOptions(encode({ validator: "valibot", validate_args: true }))).toMatchObject({
+      validator: "valibot",
+      validateArgs: true,
+    });
+    expect(() => parseOptions(encode({ validator: "yup" }))).toThrow(
+      /"validator" must be one of "zod", "valibot"; got "yup"/,
+    );
+    expect(() => parseOptions(encode({ validate_args: true }))).toThrow(
+      /"validate_args" requires "validator"/,
+    );
+  });
+
+  it("reads property_case and the name templates", () => {
+    expect(parseOptions(encode({ property_case: "snake" })).propertyCase).toBe("snake");
+    expect(
+      parseOptions(encode({ function_name: "{name}Query", row_type_name: "{Name}Result" })),
+    ).toMatchObject({
+      functionName: "{name}Query",
+      argsTypeName: "{Name}Args",
+      rowTypeName: "{Name}Result",
+    });
+    expect(() => parseOptions(encode({ function_name: "get-{name}" }))).toThrow(
+      /"function_name" must be an identifier containing \{name\} or \{Name\}; got "get-\{name\}"/,
+    );
+    expect(() => parseOptions(encode({ args_type_name: "Args" }))).toThrow(
+      /"args_type_name" must be/,
+    );
+    expect(() => parseOptions(encode({ args_type_name: "{Name}Row" }))).toThrow(
+      /"args_type_name" and "row_type_name" must differ/,
+    );
+  });
+
+  it("rejects unknown options", () => {
+    expect(() => parseOptions(encode({ emit_everything: true }))).toThrow(
+      /unknown option "emit_everything"/,
+    );
+  });
+
+  it("rejects invalid values and reports every problem", () => {
+    let message = "";
+    try {
+      parseOptions(encode({ runtime: "deno", driver: 42 }));
+    } catch (err) {
+      message = err instanceof Error ? err.message : String(err);
+    }
+    expect(message).toContain(`"runtime" must be one of "node", "bun"; got "deno"`);
+    expect(message).toContain(`"driver" must be one of`);
+  });
+
+  it("requires the bun runtime for Bun drivers", () => {
+    expect(() => parseOptions(encode({ driver: "bun-sql" }))).toThrow(
+      /driver "bun-sql" requires "runtime: bun"/,
+    );
+    expect(parseOptions(encode({ runtime: "bun", driver: "bun-sql" })).driver).toBe("bun-sql");
+  });
+
+  it("picks the default driver from the engine and runtime", () => {
+    expect(parseOptions(new Uint8Array(0), "sqlite").driver).toBe("better-sqlite3");
+    expect(parseOptions(encode({ runtime: "bun" }), "sqlite").driver).toBe("bun-sqlite");
+    expect(parseOptions(encode({ runtime: "bun" }), "postgresql").driver).toBe("postgres");
+  });
+
+  it("rejects drivers that do not support the engine", () => {
+    expect(() => parseOptions(encode({ driver: "pg" }), "sqlite")).toThrow(
+      /driver "pg" does not support engine "sqlite"/,
+    );
+    expect(() => parseOptions(new Uint8Array(0), "cockroach")).toThrow(/unsupported engine/);
+  });
+
+  it("rejects options that are not a JSON object", () => {
+    expect(() => parseOptions(encode(["driver"]))).toThrow(/must be an object/);
+    expect(() => parseOptions(new TextEncoder().encode("{driver:"))).toThrow(/not valid JSON/);
+  });
+
+  it("reads type overrides", () => {
+    const { overrides } = parseOptions(
+      encode({
+        overrides: [
+          { db_type: "numeric", ts_type: "Decimal", import: "decimal.js" },
+          { db_type: "numeric", nullable: true, ts_type: "Decimal", import: "decimal.js" },
+          {
+            column: "events.starts_at",
+            ts_type: "Temporal.Instant",
+            import: { from: "temporal-polyfill" },
+          },
+          {
+            column: "public.users.id",
+            ts_type: "UserId",
+            import: { from: "./ids", default: true },
+          },
+        ],
+      }),
+    );
+    expect(overrides).toEqual([
+      {
+        dbType: "numeric",
+        nullable: false,
+        tsType: "Decimal",
+        import: { from: "decimal.js", name: "Decimal", default: false },
+      },
+      {
+        dbType: "numeric",
+        nullable: true,
+        tsType: "Decimal",
+        import: { from: "decimal.js", name: "Decimal", default: false },
+      },
+      {
+        column: "events.starts_at",
+        nullable: false,
+        tsType: "Temporal.Instant",
+        import: { from: "temporal-polyfill", name: "Temporal", default: false },
+      },
+      {
+        column: "public.users.id",
+        nullable: false,
+        tsType: "UserId",
+        import: { from: "./ids", name: "UserId", default: true },
+      },
+    ]);
+  });
+
+  it("rejects invalid type overrides", () => {
+    let message = "";
+    try {
+      parseOptions(
+        encode({
+          overrides: [
+            { db_type: "text", column: "a.b", ts_type: "string" },
+            { column: "id", ts_type: "number", go_type: "int64" },
+            { db_type: "int8" },
+          ],
+        }),
+      );
+    } catch (err) {
+      message = err instanceof Error ? err.message : String(err);
+    }
+    expect(message).toContain(`"overrides[0]" must set exactly one of "db_type" and "column"`);
+    expect(message).toContain(`"overrides[1].column" must be "table.column"`);
+    expect(message).toContain(`unknown option "overrides[1].go_type"`);
+    expect(message).toContain(`"overrides[2].ts_type" must be a non-empty string`);
+  });
+});
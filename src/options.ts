@@ -0,0 +1,401 @@
+export const ENGINES = ["postgresql", "mysql", "sqlite"] as const;
+export const RUNTIMES = ["node", "bun"] as const;
+export const DRIVERS = [
+  "postgres",
+  "bun-sql",
+  "pg",
+  "mysql2",
+  "better-sqlite3",
+  "bun-sqlite",
+] as const;
+export const INT64_MODES = ["number", "bigint", "string"] as const;
+export const PROPERTY_CASES = ["camel", "snake", "preserve"] as const;
+export const VALIDATORS = ["zod", "valibot"] as const;
+
+export type Engine = (typeof ENGINES)[number];
+export type Runtime = (typeof RUNTIMES)[number];
+export type DriverName = (typeof DRIVERS)[number];
+export type Int64Mode = (typeof INT64_MODES)[number];
+export type PropertyCase = (typeof PROPERTY_CASES)[number];
+export type Validator = (typeof VALIDATORS)[number];
+
+// Drivers that can generate code for each sqlc engine
+const ENGINE_DRIVERS: { [E in Engine]: readonly DriverName[] } = {
+  postgresql: ["postgres", "bun-sql", "pg"],
+  mysql: ["mysql2"],
+  sqlite: ["better-sqlite3", "bun-sqlite"],
+};
+
+// Driver used when the options don't name one
+const DEFAULT_DRIVERS: { [E in Engine]: { [R in Runtime]: DriverName } } = {
+  postgresql: { node: "postgres", bun: "postgres" },
+  mysql: { node: "mysql2", bun: "mysql2" },
+  sqlite: { node: "better-sqlite3", bun: "bun-sqlite" },
+};
+
+/**
+ * A module a type override needs to import, e.g. `Decimal` from "decimal.js".
+ */
+export interface TypeImport {
+  from: string;
+  name: string;
+  // `import type Name from "module"` instead of `import type { Name } from "module"`
+  default: boolean;
+}
+
+/**
+ * Replaces the generated TypeScript type of the columns it matches, like the
+ * overrides of sqlc-gen-go. Exactly one of `dbType` and `column` is set.
+ */
+export interface TypeOverride {
+  // Database type name, e.g. "numeric" or "pg_catalog.timestamptz"
+  dbType?: string;
+  // "table.column" or "schema.table.column"
+  column?: string;
+  // db_type overrides only match nullable columns when true, and only NOT NULL ones when false
+  nullable: boolean;
+  tsType: string;
+  import?: TypeImport;
+}
+
+/**
+ * Plugin configuration decoded from the `options` block of a codegen entry in sqlc.yaml.
+ * Keys are written in snake_case in the config and exposed here in camelCase.
+ */
+export interface Options {
+  runtime: Runtime;
+  driver: DriverName;
+  // How 64-bit integers are represented; undefined keeps the driver's default
+  int64: Int64Mode | undefined;
+  // Name models after their table without singularizing, e.g. Authors for "authors"
+  emitExactTableNames: boolean;
+  // Also emit each enum as a frozen object mapping PascalCase keys to its values
+  emitEnumObjects: boolean;
+  // Also emit a Querier interface and a Queries class binding the queries of a file to a client
+  emitQuerier: boolean;
+  // Also emit a stream function, yielding rows in batches, for every :many query
+  emitStreams: boolean;
+  // Send queries as prepared statements, or unprepared; undefined leaves it to the client
+  prepare: boolean | undefined;
+  // Library of the validation schemas emitted for Args, Row and models; undefined emits none
+  validator: Validator | undefined;
+  // Validate the arguments of query functions with their schema before running the query
+  validateArgs: boolean;
+  // Declare nullable parameters as optional properties of Args; undefined is sent as null
+  optionalNullableParams: boolean;
+  // How column and parameter names are cased as properties: camelCase, snake_case or as written
+  propertyCase: PropertyCase;
+  // Names generated for each query; {Name} is the query name, e.g. GetAuthor,
+  // and {name} the same with a lowercase first letter
+  functionName: string;
+  argsTypeName: string;
+  rowTypeName: string;
+  overrides: TypeOverride[];
+}
+
+export const DEFAULT_OPTIONS: Options = {
+  runtime: "node",
+  driver: "postgres",
+  int64: undefined,
+  emitExactTableNames: false,
+  emitEnumObjects: false,
+  emitQuerier: false,
+  emitStreams: false,
+  prepare: undefined,
+  validator: undefined,
+  validateArgs: false,
+  optionalNullableParams: false,
+  propertyCase: "camel",
+  functionName: "{name}",
+  argsTypeName: "{Name}Args",
+  rowTypeName: "{Name}Row",
+  overrides: [],
+};
+
+type OptionParser<T> = (value: unknown, path: string, errors: string[]) => T | undefined;
+
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  return JSON.stringify(value);
+}
+
+function oneOf<T extends string>(values: readonly T[]): OptionParser<T> {
+  return (value, path, errors) => {
+    if (typeof value === "string" && (values as readonly string[]).includes(value)) {
+      return value as T;
+    }
+    const allowed = values.map((v) => JSON.stringify(v)).join(", ");
+    errors.push(`"${path}" must be one of ${allowed}; got ${describe(value)}`);
+    return undefined;
+  };
+}
+
+const bool: OptionParser<boolean> = (value, path, errors) => {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  errors.push(`"${path}" must be a boolean; got ${describe(value)}`);
+  return undefined;
+};
+
+// An identifier with {name} or {Name} in place of some of its characters
+const nameTemplate: OptionParser<string> = (value, path, errors) => {
+  const part = String.raw`(?:[\w$]|\{name\}|\{Name\})`;
+  if (
+    typeof value === "string" &&
+    new RegExp(`^(?![0-9])${part}+$`).test(value) &&
+    /\{[nN]ame\}/.test(value)
+  ) {
+    return value;
+  }
+  errors.push(
+    `"${path}" must be an identifier containing {name} or {Name}; got ${describe(value)}`,
+  );
+  return undefined;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown, path: string, errors: string[]): string | undefined {
+  if (typeof value === "string" && value.trim() !== "") {
+    return value.trim();
+  }
+  errors.push(`"${path}" must be a non-empty string; got ${describe(value)}`);
+  return undefined;
+}
+
+// The identifier a type refers to first, e.g. "Temporal" in "Temporal.Instant"
+function rootIdentifier(tsType: string): string | undefined {
+  return /^[A-Za-z_$][\w$]*/.exec(tsType)?.[0];
+}
+
+function parseTypeImport(
+  value: unknown,
+  tsType: string | undefined,
+  path: string,
+  errors: string[],
+): TypeImport | undefined {
+  // import: "decimal.js" imports the root identifier of ts_type by name
+  if (typeof value === "string") {
+    const from = nonEmptyString(value, path, errors);
+    const name = tsType === undefined ? undefined : rootIdentifier(tsType);
+    if (from === undefined || tsType === undefined) {
+      return undefined;
+    }
+    if (name === undefined) {
+      errors.push(`"${path}" needs a "name" to import for ts_type ${describe(tsType)}`);
+      return undefined;
+    }
+    return { from, name, default: false };
+  }
+  if (!isPlainObject(value)) {
+    errors.push(`"${path}" must be a module name or an object; got ${describe(value)}`);
+    return undefined;
+  }
+  for (const key of Object.keys(value)) {
+    if (!["from", "name", "default"].includes(key)) {
+      errors.push(`unknown option "${path}.${key}"`);
+    }
+  }
+  const from = nonEmptyString(value.from, `${path}.from`, errors);
+  let name = tsType === undefined ? undefined : rootIdentifier(tsType);
+  if (value.name !== undefined) {
+    name = nonEmptyString(value.name, `${path}.name`, errors);
+  }
+  const isDefault =
+    value.default === undefined ? false : bool(value.default, `${path}.default`, errors);
+  if (from === undefined || name === undefined || isDefault === undefined) {
+    return undefined;
+  }
+  return { from, name, default: isDefault };
+}
+
+function parseOverride(value: unknown, path: string, errors: string[]): TypeOverride | undefined {
+  if (!isPlainObject(value)) {
+    errors.push(`"${path}" must be an object; got ${describe(value)}`);
+    return undefined;
+  }
+  for (const key of Object.keys(value)) {
+    if (!["db_type", "column", "nullable", "ts_type", "import"].includes(key)) {
+      errors.push(`unknown option "${path}.${key}"`);
+    }
+  }
+  if ((value.db_type === undefined) === (value.column === undefined)) {
+    errors.push(`"${path}" must set exactly one of "db_type" and "column"`);
+    return undefined;
+  }
+
+  const override: TypeOverride = { nullable: false, tsType: "" };
+  if (value.db_type !== undefined) {
+    override.dbType = nonEmptyString(value.db_type, `${path}.db_type`, errors);
+  } else {
+    override.column = nonEmptyString(value.column, `${path}.column`, errors);
+    if (override.column !== undefined && !/^[^.]+\.[^.]+(\.[^.]+)?$/.test(override.column)) {
+      errors.push(
+        `"${path}.column" must be "table.column" or "schema.table.column"; got ${describe(value.column)}`,
+      );
+    }
+  }
+  if (value.nullable !== undefined) {
+    override.nullable = bool(value.nullable, `${path}.nullable`, errors) ?? false;
+  }
+  const tsType = nonEmptyString(value.ts_type, `${path}.ts_type`, errors);
+  if (value.import !== undefined) {
+    override.import = parseTypeImport(value.import, tsType, `${path}.import`, errors);
+  }
+  if (tsType === undefined) {
+    return undefined;
+  }
+  override.tsType = tsType;
+  return override;
+}
+
+const parseOverrides: OptionParser<TypeOverride[]> = (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`"${path}" must be a list; got ${describe(value)}`);
+    return undefined;
+  }
+  const overrides: TypeOverride[] = [];
+  value.forEach((item, i) => {
+    const override = parseOverride(item, `${path}[${i}]`, errors);
+    if (override !== undefined) {
+      overrides.push(override);
+    }
+  });
+  return overrides;
+};
+
+const OPTION_PARSERS: { [K in keyof Options]: OptionParser<Options[K]> } = {
+  runtime: oneOf(RUNTIMES),
+  driver: oneOf(DRIVERS),
+  int64: oneOf(INT64_MODES),
+  emitExactTableNames: bool,
+  emitEnumObjects: bool,
+  emitQuerier: bool,
+  emitStreams: bool,
+  prepare: bool,
+  validator: oneOf(VALIDATORS),
+  validateArgs: bool,
+  optionalNullableParams: bool,
+  propertyCase: oneOf(PROPERTY_CASES),
+  functionName: nameTemplate,
+  argsTypeName: nameTemplate,
+  rowTypeName: nameTemplate,
+  overrides: parseOverrides,
+};
+
+function snakeCase(str: string): string {
+  return str.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+function assignOption<K extends keyof Options>(
+  options: Options,
+  name: K,
+  value: unknown,
+  key: string,
+  errors: string[],
+) {
+  const parsed = OPTION_PARSERS[name](value, key, errors);
+  if (parsed !== undefined) {
+    options[name] = parsed;
+  }
+}
+
+function isEngine(engine: string): engine is Engine {
+  return (ENGINES as readonly string[]).includes(engine);
+}
+
+function decodeJSON(raw: Uint8Array): Record<string, unknown> {
+  const text = new TextDecoder().decode(raw).trim();
+  if (text === "") {
+    return {};
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err) {
+    throw new Error(
+      `sqlc-gen-typescript: plugin options are not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  if (json === null) {
+    return {};
+  }
+  if (!isPlainObject(json)) {
+    throw new Error(`sqlc-gen-typescript: plugin options must be an object; got ${describe(json)}`);
+  }
+  return json;
+}
+
+/**
+ * Decode and validate the plugin options sent by sqlc as JSON bytes.
+ * Missing keys fall back to DEFAULT_OPTIONS, except for the driver which defaults
+ * per engine and runtime. Unknown keys and invalid values are collected and
+ * reported together in a single error.
+ */
+export function parseOptions(raw: Uint8Array, engine: string = "postgresql"): Options {
+  if (!isEngine(engine)) {
+    throw new Error(
+      `sqlc-gen-typescript: unsupported engine "${engine}"; supported engines are ${ENGINES.join(", ")}`,
+    );
+  }
+  const json = decodeJSON(raw);
+
+  const errors: string[] = [];
+  const known = new Map(
+    (Object.keys(OPTION_PARSERS) as (keyof Options)[]).map((name) => [snakeCase(name), name]),
+  );
+
+  for (const key of Object.keys(json)) {
+    if (!known.has(key)) {
+      errors.push(`unknown option "${key}"`);
+    }
+  }
+
+  const options: Options = { ...DEFAULT_OPTIONS };
+  for (const [key, name] of known) {
+    if (json[key] !== undefined) {
+      assignOption(options, name, json[key], key, errors);
+    }
+  }
+
+  if (json.driver === undefined) {
+    options.driver = DEFAULT_DRIVERS[engine][options.runtime];
+  } else if (json.driver === options.driver && !ENGINE_DRIVERS[engine].includes(options.driver)) {
+    const allowed = ENGINE_DRIVERS[engine].map((d) => JSON.stringify(d)).join(", ");
+    errors.push(`driver "${options.driver}" does not support engine "${engine}"; use ${allowed}`);
+  }
+
+  if (options.validateArgs && options.validator === undefined) {
+    errors.push(`"validate_args" requires "validator"`);
+  }
+
+  if (options.argsTypeName === options.rowTypeName) {
+    errors.push(
+      `"args_type_name" and "row_type_name" must differ; both are "${options.argsTypeName}"`,
+    );
+  }
+
+  if (options.driver.startsWith("bun-") && options.runtime !== "bun") {
+    errors.push(`driver "${options.driver}" requires "runtime: bun"`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      [
+        "sqlc-gen-typescript: invalid plugin options",
+        "",
+        ...errors.map((e) => `- ${e}`),
+        "",
+        `Valid options: ${[...known.keys()].join(", ")}`,
+      ].join("\n"),
+    );
+  }
+
+  return options;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EmitHint,
+  ScriptKind,
+  ScriptTarget,
+  TypeNode,
+  createPrinter,
+  createSourceFile,
+} from "typescript";
+
+import { Column, Identifier } from "./gen/plugin/codegen_pb";
+import { TypeOverride } from "./options";
+import { findOverride, overrideType } from "./overrides";
+
+function column(name: string, type: string, notNull: boolean, extra: Partial<Column> = {}) {
+  return new Column({
+    name,
+    notNull,
+    type: new Identifier({ name: type }),
+    table: new Identifier({ schema: "public", name: "authors" }),
+    ...extra,
+  });
+}
+
+function print(node: TypeNode): string {
+  const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+  return createPrinter().printNode(EmitHint.Unspecified, node, file);
+}
+
+const overrides: TypeOverride[] = [
+  { dbType: "numeric", nullable: false, tsType: "Decimal" },
+  { dbType: "pg_catalog.numeric", nullable: true, tsType: "NullableDecimal" },
+  { column: "authors.price", nullable: false, tsType: "Money" },
+];
+
+describe("findOverride", () => {
+  it("matches db_type overrides by nullability", () => {
+    expect(findOverride(overrides, column("total", "pg_catalog.numeric", true))?.tsType).toBe(
+      "Decimal",
+    );
+    expect(findOverride(overrides, column("total", "numeric", false))?.tsType).toBe(
+      "NullableDecimal",
+    );
+    expect(findOverride(overrides, column("total", "int4", true))).toBeUndefined();
+  });
+
+  it("prefers column overrides", () => {
+    expect(findOverride(overrides, column("price", "numeric", true))?.tsType).toBe("Money");
+    expect(
+      findOverride(
+        [{ column: "other.authors.price", nullable: false, tsType: "Money" }],
+        column("price", "numeric", true),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("overrideType", () => {
+  it("wraps the override type for arrays and nullable columns", () => {
+    const override: TypeOverride = { dbType: "text", nullable: true, tsType: 'Brand<"a" | "b">' };
+    expect(print(overrideType(override, column("tags", "text", false, { isArray: true })))).toBe(
+      'Brand<"a" | "b">[] | null',
+    );
+  });
+
+  it("rejects ts_type values that are not types", () => {
+    const override: TypeOverride = { dbType: "text", nullable: false, tsType: "Foo<" };
+    expect(() => overrideType(override, column("name", "text", true))).toThrow(/invalid ts_type/);
+  });
+});
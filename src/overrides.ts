@@ -0,0 +1,185 @@
+/**
+ * Type overrides configured through the `overrides` plugin option.
+ *
+ * An override replaces the type the driver would generate for a column; the
+ * driver still decides how the value is read, so the client library has to be
+ * configured to return values of the overriding type.
+ */
+
+import {
+  ImportDeclaration,
+  Node,
+  ScriptKind,
+  ScriptTarget,
+  SyntaxKind,
+  TypeNode,
+  createSourceFile,
+  factory,
+  forEachChild,
+  isTypeAliasDeclaration,
+  setTextRange,
+  transpileModule,
+} from "typescript";
+
+import { Column } from "./gen/plugin/codegen_pb";
+import { TypeImport, TypeOverride } from "./options";
+
+function normalizeDbType(name: string): string {
+  const lower = name.toLowerCase();
+  return lower.startsWith("pg_catalog.") ? lower.slice("pg_catalog.".length) : lower;
+}
+
+function matchesColumn(override: TypeOverride, column: Column): boolean {
+  if (override.column !== undefined) {
+    const parts = override.column.split(".");
+    const name = parts.pop();
+    const table = parts.pop();
+    const schema = parts.pop();
+    return (
+      column.name === name &&
+      column.table?.name === table &&
+      (schema === undefined || column.table?.schema === schema)
+    );
+  }
+  if (override.dbType === undefined || column.type === undefined) {
+    return false;
+  }
+  return (
+    normalizeDbType(column.type.name) === normalizeDbType(override.dbType) &&
+    override.nullable === !column.notNull
+  );
+}
+
+/**
+ * Find the override for a column. Column overrides win over db_type overrides;
+ * otherwise the first matching entry is used.
+ */
+export function findOverride(
+  overrides: TypeOverride[],
+  column: Column | undefined,
+): TypeOverride | undefined {
+  if (column === undefined) {
+    return undefined;
+  }
+  return (
+    overrides.find((o) => o.column !== undefined && matchesColumn(o, column)) ??
+    overrides.find((o) => o.dbType !== undefined && matchesColumn(o, column))
+  );
+}
+
+/**
+ * Clear the source positions of parsed nodes so the printer prints literals
+ * from the nodes themselves rather than from the file being generated.
+ */
+function detach(node: Node) {
+  setTextRange(node, { pos: -1, end: -1 });
+  forEachChild(node, detach);
+}
+
+/**
+ * Parse a TypeScript type written in the configuration or the catalog into a
+ * type node, or undefined if it is not a single valid type.
+ */
+export function parseTypeText(tsType: string): TypeNode | undefined {
+  const text = `type T = ${tsType};`;
+  const syntaxErrors = transpileModule(text, { reportDiagnostics: true }).diagnostics ?? [];
+  const source = createSourceFile(
+    "override.ts",
+    text,
+    ScriptTarget.Latest,
+    /*setParentNodes*/ true,
+    ScriptKind.TS,
+  );
+  const [statement, ...rest] = source.statements;
+  if (
+    syntaxErrors.length > 0 ||
+    statement === undefined ||
+    rest.length > 0 ||
+    !isTypeAliasDeclaration(statement)
+  ) {
+    return undefined;
+  }
+  detach(statement.type);
+  return statement.type;
+}
+
+/**
+ * Parse the ts_type of an override into a type node.
+ */
+function parseType(tsType: string): TypeNode {
+  const typ = parseTypeText(tsType);
+  if (typ === undefined) {
+    throw new Error(`invalid ts_type "${tsType}" in overrides`);
+  }
+  return typ;
+}
+
+/**
+ * Generate the TypeScript type of a column using an override. Arrays and
+ * nullability are applied around the override type like for generated types.
+ */
+export function overrideType(override: TypeOverride, column: Column): TypeNode {
+  let typ = parseType(override.tsType);
+  if (column.isArray || column.arrayDims > 0) {
+    for (let i = 0; i < Math.max(column.arrayDims, 1); i++) {
+      typ = factory.createArrayTypeNode(
+        typ.kind === SyntaxKind.UnionType ? factory.createParenthesizedType(typ) : typ,
+      );
+    }
+  }
+  if (column.notNull) {
+    return typ;
+  }
+  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+}
+
+/**
+ * Generate type-only import declarations for the imports of the overrides
+ * used in a file, one per module and import style.
+ */
+export function importDecls(imports: TypeImport[]): ImportDeclaration[] {
+  const modules = new Map<string, { defaults: Set<string>; names: Set<string> }>();
+  for (const imp of imports) {
+    let entry = modules.get(imp.from);
+    if (entry === undefined) {
+      entry = { defaults: new Set(), names: new Set() };
+      modules.set(imp.from, entry);
+    }
+    (imp.default ? entry.defaults : entry.names).add(imp.name);
+  }
+
+  const decls: ImportDeclaration[] = [];
+  for (const [from, { defaults, names }] of modules) {
+    for (const name of defaults) {
+      decls.push(
+        factory.createImportDeclaration(
+          undefined,
+          factory.createImportClause(true, factory.createIdentifier(name), undefined),
+          factory.createStringLiteral(from),
+          undefined,
+        ),
+      );
+    }
+    if (names.size > 0) {
+      decls.push(
+        factory.createImportDeclaration(
+          undefined,
+          factory.createImportClause(
+            true, // type-only import
+            undefined,
+            factory.createNamedImports(
+              [...names]
+                .sort()
+                .map((name) =>
+                  factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+                ),
+            ),
+          ),
+          factory.createStringLiteral(from),
+          undefined,
+        ),
+      );
+    }
+  }
+  return decls;
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "bun:test";
+import { SyntaxKind, factory, isFunctionDeclaration } from "typescript";
+
+import { sourceNode } from "./drivers/utils";
+import { Column, Identifier, Parameter, Query } from "./gen/plugin/codegen_pb";
+import {
+  cursorColumns,
+  pageFunctionDecl,
+  pageQuery,
+  paginationFileNodes,
+  parsePagination,
+} from "./pagination";
+import { importNodes } from "./testing";
+
+function column(name: string, type: string, notNull = true) {
+  return new Column({ name, notNull, type: new Identifier({ name: type }) });
+}
+
+function query(comment: string, cmd = ":many") {
+  return new Query({ name: "ListAuthors", cmd, comments: [" List authors.", ` ${comment}`] });
+}
+
+const columns = [
+  column("id", "int8"),
+  column("created_at", "timestamptz"),
+  column("bio", "text", false),
+];
+
+describe("parsePagination", () => {
+  it("reads cursor and offset pagination", () => {
+    expect(parsePagination(new Query({ cmd: ":many" }))).toBeUndefined();
+    expect(parsePagination(query("@paginate cursor=created_at,id"))).toEqual({
+      kind: "cursor",
+      columns: ["created_at", "id"],
+      descending: false,
+    });
+    expect(parsePagination(query("@paginate cursor=id order=desc"))).toMatchObject({
+      descending: true,
+    });
+    expect(parsePagination(query("@paginate offset"))).toEqual({ kind: "offset" });
+  });
+
+  it("rejects invalid annotations", () => {
+    expect(() => parsePagination(query("@paginate offset", ":one"))).toThrow(
+      /@paginate requires :many; got :one/,
+    );
+    expect(() => parsePagination(query("@paginate"))).toThrow(/either cursor=<columns> or offset/);
+    expect(() => parsePagination(query("@paginate cursor=id offset"))).toThrow(/either/);
+    expect(() => parsePagination(query("@paginate cursor=a-b"))).toThrow(/must list column names/);
+    expect(() => parsePagination(query("@paginate offset size=10"))).toThrow(
+      /unknown option "size=10"/,
+    );
+  });
+});
+
+describe("cursorColumns", () => {
+  it("finds the NOT NULL result columns of the cursor", () => {
+    const cursor = { kind: "cursor" as const, columns: ["created_at", "id"], descending: false };
+    expect(cursorColumns(cursor, columns)).toEqual([columns[1], columns[0]]);
+    expect(() => cursorColumns({ ...cursor, columns: ["bio"] }, columns)).toThrow(
+      /"bio" must be NOT NULL/,
+    );
+    expect(() => cursorColumns({ ...cursor, columns: ["name"] }, columns)).toThrow(
+      /"name" is not a result column/,
+    );
+    expect(() => cursorColumns({ ...cursor, columns: ["id"] }, [...columns, columns[0]])).toThrow(
+      /"id" is returned more than once/,
+    );
+  });
+});
+
+describe("pageQuery", () => {
+  const params = [new Parameter({ number: 1, column: column("bio", "text") })];
+  const list = new Query({
+    text: "SELECT id, created_at FROM authors WHERE bio <> $1",
+    params,
+  });
+  const cursor = { kind: "cursor" as const, columns: ["created_at", "id"], descending: false };
+
+  it("selects the rows after the cursor with numbered placeholders", () => {
+    const page = pageQuery("postgresql", list, cursor, [columns[1], columns[0]]);
+    expect(page.text).toBe(
+      [
+        "SELECT *, created_at::text AS cursor_created_at FROM (",
+        "SELECT id, created_at FROM authors WHERE bio <> $1",
+        ") AS page",
+        "WHERE ($2::timestamptz IS NULL OR (created_at, id) > ($2::timestamptz, $3))",
+        "ORDER BY created_at, id",
+        "LIMIT $4",
+      ].join("\n"),
+    );
+    expect(page.params.map((param) => param.column?.name)).toEqual([
+      "bio",
+      "after_created_at",
+      "after_id",
+      "limit",
+    ]);
+    expect(page.added.map((param) => param.number)).toEqual([2, 3, 4]);
+    // The timestamp is passed and read back as text
+    expect(page.added[0].column?.type?.name).toBe("text");
+    expect(page.columns.map((column) => column.name)).toEqual(["cursor_created_at"]);
+    expect(page.cursorValues).toEqual([page.columns[0], columns[0]]);
+  });
+
+  it("repeats parameters for ? placeholders", () => {
+    const text = "SELECT id, created_at FROM authors WHERE bio <> ?";
+    const page = pageQuery(
+      "mysql",
+      new Query({ text, params }),
+      { ...cursor, columns: ["id"], descending: true },
+      [columns[0]],
+    );
+    expect(page.text).toContain("WHERE (? IS NULL OR id < ?)\nORDER BY id DESC\nLIMIT ?");
+    expect(page.params.map((param) => param.column?.name)).toEqual([
+      "bio",
+      "after_id",
+      "after_id",
+      "limit",
+    ]);
+    expect(page.added.map((param) => param.column?.name)).toEqual(["after_id", "limit"]);
+    expect(page.columns).toEqual([]);
+  });
+
+  it("appends LIMIT and OFFSET for offset pagination", () => {
+    const page = pageQuery(
+      "sqlite",
+      new Query({ text: "SELECT id FROM authors;" }),
+      { kind: "offset" },
+      [],
+    );
+    expect(page.text).toBe("SELECT id FROM authors\nLIMIT ? OFFSET ?");
+    expect(page.params.map((param) => param.column?.name)).toEqual(["limit", "offset"]);
+  });
+
+  it("rejects queries with a LIMIT", () => {
+    expect(() =>
+      pageQuery(
+        "postgresql",
+        new Query({ text: "SELECT id FROM authors LIMIT 10" }),
+        { kind: "offset" },
+        [],
+      ),
+    ).toThrow(/without LIMIT/);
+  });
+});
+
+// A page function over fake rows, run with the generated pagination.ts
+async function pageModule(): Promise<{
+  listAuthorsPage: (
+    client: (args: Record<string, unknown>) => Record<string, unknown>[],
+    page: { limit: number; cursor?: string | null },
+  ) => Promise<{ items: unknown[]; nextCursor: string | null }>;
+}> {
+  const rowsText =
+    "async function listAuthorsPageRows(client: (args: unknown) => unknown[], args: unknown) { return client(args); }";
+  const rowsFile = sourceNode(rowsText);
+  const rows = rowsFile.statements.find(isFunctionDeclaration)!;
+  const decl = pageFunctionDecl({
+    name: "listAuthorsPage",
+    rows,
+    limitArg: "limit",
+    argIface: undefined,
+    returnIface: "Author",
+    cursorType: "ListAuthorsCursor",
+    cursor: [
+      {
+        row: "cursorCreatedAt",
+        arg: "afterCreatedAt",
+        type: factory.createKeywordTypeNode(SyntaxKind.StringKeyword),
+      },
+    ],
+    cursorOnly: ["cursorCreatedAt"],
+  });
+  return importNodes([...paginationFileNodes(), rowsFile, decl], "page.ts");
+}
+
+const { listAuthorsPage } = await pageModule();
+
+describe("pageFunctionDecl", () => {
+  it("keeps the microseconds of timestamp cursors", async () => {
+    // Two rows within the same millisecond, which a Date cannot tell apart
+    const table = [
+      { id: 1, cursorCreatedAt: "2024-01-01 10:00:00.123456+00" },
+      { id: 2, cursorCreatedAt: "2024-01-01 10:00:00.123457+00" },
+    ];
+    const calls: Record<string, unknown>[] = [];
+    const client = (args: Record<string, unknown>) => {
+      calls.push(args);
+      const after = args.afterCreatedAt as string | null;
+      return table.filter((row) => after === null || row.cursorCreatedAt > after);
+    };
+
+    const first = await listAuthorsPage(client, { limit: 1 });
+    expect(first.items).toEqual([{ id: 1 }]);
+    const second = await listAuthorsPage(client, { limit: 1, cursor: first.nextCursor });
+    expect(calls[1].afterCreatedAt).toBe("2024-01-01 10:00:00.123456+00");
+    expect(second).toEqual({ items: [{ id: 2 }], nextCursor: null });
+  });
+});
@@ -0,0 +1,653 @@
+/**
+ * Pagination of :many queries annotated with `@paginate` in their comments.
+ *
+ *   -- name: ListAuthors :many
+ *   -- @paginate cursor=created_at,id
+ *
+ * The query text is rewritten to fetch one page, either after the cursor
+ * columns of the last row (keyset) or at an offset, and a page function wraps
+ * the query with an opaque cursor the caller passes back for the next page.
+ * Page, PageArgs and the cursor encoding live in a generated pagination.ts.
+ */
+
+import {
+  Expression,
+  FunctionDeclaration,
+  ImportDeclaration,
+  Node,
+  NodeFlags,
+  ObjectLiteralElementLike,
+  Statement,
+  SyntaxKind,
+  TypeNode,
+  factory,
+  isIdentifier,
+  isTypeReferenceNode,
+} from "typescript";
+
+import { sourceNode } from "./drivers/utils";
+import { Column, Identifier, Parameter, Query } from "./gen/plugin/codegen_pb";
+import { TypeImport } from "./options";
+
+export const PAGINATION_FILE = "pagination";
+
+export type Pagination =
+  | { kind: "cursor"; columns: string[]; descending: boolean }
+  | { kind: "offset" };
+
+/**
+ * Read the `@paginate` annotation of a query, or undefined if it has none:
+ *   @paginate cursor=created_at,id [order=asc|desc]
+ *   @paginate offset
+ */
+export function parsePagination(query: Query): Pagination | undefined {
+  const lines = query.comments.filter((line) => /^\s*@paginate\b/.test(line));
+  if (lines.length === 0) {
+    return undefined;
+  }
+  if (lines.length > 1) {
+    throw new Error("@paginate is given more than once");
+  }
+  if (query.cmd !== ":many") {
+    throw new Error(`@paginate requires :many; got ${query.cmd}`);
+  }
+
+  let columns: string[] | undefined;
+  let descending = false;
+  let offset = false;
+  for (const word of lines[0].trim().split(/\s+/).slice(1)) {
+    const [key, value] = word.split("=", 2);
+    if (key === "offset" && value === undefined) {
+      offset = true;
+    } else if (key === "cursor" && value !== undefined) {
+      columns = value.split(",").filter((name) => name !== "");
+      const invalid = columns.find((name) => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name));
+      if (columns.length === 0 || invalid !== undefined) {
+        throw new Error(`@paginate cursor must list column names; got "${value}"`);
+      }
+    } else if (key === "order" && (value === "asc" || value === "desc")) {
+      descending = value === "desc";
+    } else {
+      throw new Error(`@paginate: unknown option "${word}"`);
+    }
+  }
+
+  if (offset === (columns !== undefined)) {
+    throw new Error("@paginate requires either cursor=<columns> or offset");
+  }
+  if (columns === undefined) {
+    if (descending) {
+      throw new Error("@paginate: order applies to cursor pagination only");
+    }
+    return { kind: "offset" };
+  }
+  return { kind: "cursor", columns, descending };
+}
+
+/**
+ * The result columns of the cursor, in its order. Each must be a NOT NULL
+ * column the query returns exactly once, so rows are ordered and compared by
+ * it unambiguously.
+ */
+export function cursorColumns(pagination: Pagination, columns: Column[]): Column[] {
+  if (pagination.kind !== "cursor") {
+    return [];
+  }
+  return pagination.columns.map((name) => {
+    const matches = columns.filter(
+      (column) => column.embedTable === undefined && column.name === name,
+    );
+    if (matches.length !== 1) {
+      throw new Error(
+        matches.length === 0
+          ? `@paginate cursor column "${name}" is not a result column`
+          : `@paginate cursor column "${name}" is returned more than once`,
+      );
+    }
+    if (!matches[0].notNull) {
+      throw new Error(`@paginate cursor column "${name}" must be NOT NULL`);
+    }
+    return matches[0];
+  });
+}
+
+/**
+ * Whether a cursor column is carried as text: a Date drops the microseconds of
+ * PostgreSQL timestamps, so the page also selects their text and compares it
+ * cast back to the column type.
+ */
+function textCursor(engine: string, column: Column): boolean {
+  const typeName = column.type?.name.toLowerCase().replace(/^pg_catalog\./, "") ?? "";
+  return engine === "postgresql" && (typeName === "timestamp" || typeName === "timestamptz");
+}
+
+function textColumn(name: string): Column {
+  return new Column({ name, type: new Identifier({ name: "text" }), notNull: true });
+}
+
+function pageParam(number: number, name: string, column?: Column): Parameter {
+  const base =
+    column?.clone() ?? new Column({ type: new Identifier({ name: "integer" }), notNull: true });
+  base.name = name;
+  return new Parameter({ number, column: base });
+}
+
+// The PostgreSQL type of a cursor column, to type its parameter in `$n IS NULL`
+function pgTypeName(column: Column): string {
+  const name = [column.type?.schema ?? "", column.type?.name ?? ""]
+    .filter((part) => part !== "")
+    .join(".");
+  return column.isArray ? `${name}[]` : name;
+}
+
+export interface PageQuery {
+  text: string;
+  // Parameters of the text in placeholder order
+  params: Parameter[];
+  // Parameters the page adds to the query, each once: cursor values, limit, offset
+  added: Parameter[];
+  // Result columns the page adds after those of the query: the text of cursor columns
+  columns: Column[];
+  // The result column of each cursor column its value is read from
+  cursorValues: Column[];
+}
+
+/**
+ * Rewrite a query to fetch one page. Keyset pagination selects from the query
+ * the rows after the cursor values, which are null for the first page:
+ *
+ *   SELECT *, created_at::text AS cursor_created_at FROM (<query>) AS page
+ *   WHERE ($2::timestamptz IS NULL OR (created_at, id) > ($2::timestamptz, $3))
+ *   ORDER BY created_at, id
+ *   LIMIT $4
+ *
+ * Offset pagination appends LIMIT and OFFSET. PostgreSQL queries number their
+ * placeholders; MySQL and SQLite repeat a parameter for each `?`.
+ */
+export function pageQuery(
+  engine: string,
+  query: Query,
+  pagination: Pagination,
+  cursor: Column[],
+): PageQuery {
+  const text = query.text.trim().replace(/;$/, "").trimEnd();
+  if (/\blimit\s+\S+(\s+offset\s+\S+)?$/i.test(text)) {
+    throw new Error("@paginate requires a query without LIMIT");
+  }
+
+  const numbered = engine === "postgresql";
+  let next = query.params.length + 1;
+  const added: Parameter[] = [];
+  const unnumbered = [...query.params];
+  // The placeholder of a parameter; ? placeholders take their parameters in order
+  const placeholder = (param: Parameter, cast = "") => {
+    if (numbered) {
+      return `$${param.number}${cast}`;
+    }
+    unnumbered.push(param);
+    return "?";
+  };
+  const params = () => (numbered ? [...query.params, ...added] : unnumbered);
+
+  if (pagination.kind === "offset") {
+    const limit = pageParam(next++, "limit");
+    const offset = pageParam(next++, "offset");
+    added.push(limit, offset);
+    return {
+      text: `${text}\nLIMIT ${placeholder(limit)} OFFSET ${placeholder(offset)}`,
+      params: params(),
+      added,
+      columns: [],
+      cursorValues: [],
+    };
+  }
+
+  const texts = cursor.filter((column) => textCursor(engine, column));
+  const columns = texts.map((column) => textColumn(`cursor_${column.name}`));
+  const after = cursor.map((column) =>
+    pageParam(
+      next++,
+      `after_${column.name}`,
+      texts.includes(column) ? textColumn(column.name) : column,
+    ),
+  );
+  const limit = pageParam(next++, "limit");
+  added.push(...after, limit);
+
+  const first = placeholder(after[0], numbered ? `::${pgTypeName(cursor[0])}` : "");
+  const names = cursor.map((column) => column.name);
+  const values = after.map((param, i) =>
+    placeholder(param, texts.includes(cursor[i]) ? `::${pgTypeName(cursor[i])}` : ""),
+  );
+  const select = [
+    "*",
+    ...texts.map((column, i) => `${column.name}::text AS ${columns[i].name}`),
+  ].join(", ");
+  const tuple = (items: string[]) => (items.length === 1 ? items[0] : `(${items.join(", ")})`);
+  const direction = pagination.descending ? " DESC" : "";
+  const limitText = `LIMIT ${placeholder(limit)}`;
+  return {
+    text: [
+      `SELECT ${select} FROM (`,
+      text,
+      `) AS page`,
+      `WHERE (${first} IS NULL OR ${tuple(names)} ${pagination.descending ? "<" : ">"} ${tuple(values)})`,
+      `ORDER BY ${names.map((name) => `${name}${direction}`).join(", ")}`,
+      limitText,
+    ].join("\n"),
+    params: params(),
+    added,
+    columns,
+    cursorValues: cursor.map((column) =>
+      texts.includes(column) ? columns[texts.indexOf(column)] : column,
+    ),
+  };
+}
+
+export function paginationTypeImports(): TypeImport[] {
+  return ["Page", "PageArgs"].map((name) => ({
+    from: `./${PAGINATION_FILE}`,
+    name,
+    default: false,
+  }));
+}
+
+/**
+ * Import the cursor functions page functions call:
+ * import { decodeCursor, encodeCursor, fetchLimit } from "./pagination";
+ */
+export function paginationImportDecl(): ImportDeclaration {
+  return factory.createImportDeclaration(
+    undefined,
+    factory.createImportClause(
+      false,
+      undefined,
+      factory.createNamedImports(
+        ["decodeCursor", "encodeCursor", "fetchLimit"].map((name) =>
+          factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+        ),
+      ),
+    ),
+    factory.createStringLiteral(`./${PAGINATION_FILE}`),
+    undefined,
+  );
+}
+
+/**
+ * Generate: export type ListAuthorsCursor = string & { readonly __cursor: "ListAuthors" };
+ */
+export function cursorTypeDecl(name: string, queryName: string): Node {
+  return factory.createTypeAliasDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword)],
+    factory.createIdentifier(name),
+    undefined,
+    factory.createIntersectionTypeNode([
+      factory.createKeywordTypeNode(SyntaxKind.StringKeyword),
+      factory.createTypeLiteralNode([
+        factory.createPropertySignature(
+          [factory.createToken(SyntaxKind.ReadonlyKeyword)],
+          factory.createIdentifier("__cursor"),
+          undefined,
+          factory.createLiteralTypeNode(factory.createStringLiteral(queryName)),
+        ),
+      ]),
+    ]),
+  );
+}
+
+/**
+ * The query function of a page, which the page function calls: the function
+ * the driver generated, without the export.
+ */
+export function unexported(decl: FunctionDeclaration): FunctionDeclaration {
+  return factory.updateFunctionDeclaration(
+    decl,
+    decl.modifiers?.filter((modifier) => modifier.kind !== SyntaxKind.ExportKeyword),
+    decl.asteriskToken,
+    decl.name,
+    decl.typeParameters,
+    decl.parameters,
+    decl.type,
+    decl.body,
+  );
+}
+
+export interface CursorField {
+  // Property of the row holding the value
+  row: string;
+  // Property of the page query arguments taking it
+  arg: string;
+  type: TypeNode;
+}
+
+export interface PageFunction {
+  name: string;
+  // The page query function and the names of its limit and offset arguments
+  rows: FunctionDeclaration;
+  limitArg: string;
+  offsetArg?: string;
+  // Args of the query, undefined if it has none
+  argIface: string | undefined;
+  returnIface: string;
+  cursorType: string;
+  cursor: CursorField[];
+  // Properties of the page query rows that are not part of the items
+  cursorOnly: string[];
+}
+
+function id(name: string) {
+  return factory.createIdentifier(name);
+}
+
+function prop(object: string, name: string) {
+  return factory.createPropertyAccessExpression(id(object), id(name));
+}
+
+function constDecl(name: string, value: Expression) {
+  return factory.createVariableStatement(
+    undefined,
+    factory.createVariableDeclarationList(
+      [factory.createVariableDeclaration(id(name), undefined, undefined, value)],
+      NodeFlags.Const,
+    ),
+  );
+}
+
+function typeRef(name: string, args?: TypeNode[]) {
+  return factory.createTypeReferenceNode(id(name), args);
+}
+
+// Generate: page.cursor == null ? <ifNull> : <value>
+function ifCursor(ifNull: Expression, value: Expression) {
+  return factory.createConditionalExpression(
+    factory.createBinaryExpression(
+      prop("page", "cursor"),
+      factory.createToken(SyntaxKind.EqualsEqualsToken),
+      factory.createNull(),
+    ),
+    factory.createToken(SyntaxKind.QuestionToken),
+    ifNull,
+    factory.createToken(SyntaxKind.ColonToken),
+    value,
+  );
+}
+
+// Generate: decodeCursor(page.cursor, <length>)
+function decodeCall(length: number) {
+  return factory.createCallExpression(id("decodeCursor"), undefined, [
+    prop("page", "cursor"),
+    factory.createNumericLiteral(length),
+  ]);
+}
+
+// Convert a decoded JSON value back to the type of its column
+function cursorValue(value: Expression, type: TypeNode): Expression {
+  const asString = factory.createAsExpression(
+    value,
+    factory.createKeywordTypeNode(SyntaxKind.StringKeyword),
+  );
+  if (isTypeReferenceNode(type) && isIdentifier(type.typeName) && type.typeName.text === "Date") {
+    return factory.createNewExpression(id("Date"), undefined, [asString]);
+  }
+  if (type.kind === SyntaxKind.BigIntKeyword) {
+    return factory.createCallExpression(id("BigInt"), undefined, [asString]);
+  }
+  return factory.createAsExpression(value, type);
+}
+
+// Generate: rows.map(({ cursorCreatedAt, ...row }) => row), or the rows as they are
+function rowItems(rows: Expression, cursorOnly: string[]): Expression {
+  if (cursorOnly.length === 0) {
+    return rows;
+  }
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(rows, id("map")),
+    undefined,
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [
+          factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            factory.createObjectBindingPattern([
+              ...cursorOnly.map((name) => factory.createBindingElement(undefined, undefined, name)),
+              factory.createBindingElement(
+                factory.createToken(SyntaxKind.DotDotDotToken),
+                undefined,
+                "row",
+              ),
+            ]),
+          ),
+        ],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        id("row"),
+      ),
+    ],
+  );
+}
+
+/**
+ * Generate the page function of a query:
+ *
+ *   export async function listAuthorsPage(sql: Client, args: ListAuthorsArgs, page: PageArgs<ListAuthorsCursor>): Promise<Page<Author, ListAuthorsCursor>> {
+ *       const cursor = page.cursor == null ? null : decodeCursor(page.cursor, 2);
+ *       const rows = await listAuthorsPageRows(sql, { ...args, afterCreatedAt: ..., limit: fetchLimit(page) });
+ *       if (rows.length <= page.limit) {
+ *           return { items: rows, nextCursor: null };
+ *       }
+ *       const last = rows[page.limit - 1];
+ *       return { items: rows.slice(0, page.limit), nextCursor: encodeCursor([last.createdAt, last.id]) as ListAuthorsCursor };
+ *   }
+ */
+export function pageFunctionDecl(fn: PageFunction): FunctionDeclaration {
+  const client = fn.rows.parameters[0];
+  if (client === undefined || fn.rows.name === undefined) {
+    throw new Error("query functions must take the client as their first parameter");
+  }
+  const cursorType = typeRef(fn.cursorType);
+  const params = [
+    client,
+    ...(fn.argIface === undefined
+      ? []
+      : [
+          factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            id("args"),
+            undefined,
+            typeRef(fn.argIface),
+          ),
+        ]),
+    factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      id("page"),
+      undefined,
+      typeRef("PageArgs", [cursorType]),
+    ),
+  ];
+
+  // The values of the cursor the page starts after, and the offset of the next page
+  const statements: Statement[] = [];
+  const args: ObjectLiteralElementLike[] =
+    fn.argIface === undefined ? [] : [factory.createSpreadAssignment(id("args"))];
+  let nextValues: Expression[];
+  if (fn.offsetArg === undefined) {
+    statements.push(
+      constDecl("cursor", ifCursor(factory.createNull(), decodeCall(fn.cursor.length))),
+    );
+    args.push(
+      ...fn.cursor.map((field, i) =>
+        factory.createPropertyAssignment(
+          id(field.arg),
+          factory.createConditionalExpression(
+            factory.createBinaryExpression(
+              id("cursor"),
+              factory.createToken(SyntaxKind.EqualsEqualsEqualsToken),
+              factory.createNull(),
+            ),
+            factory.createToken(SyntaxKind.QuestionToken),
+            factory.createNull(),
+            factory.createToken(SyntaxKind.ColonToken),
+            cursorValue(
+              factory.createElementAccessExpression(id("cursor"), factory.createNumericLiteral(i)),
+              field.type,
+            ),
+          ),
+        ),
+      ),
+    );
+    nextValues = fn.cursor.map((field) => prop("last", field.row));
+  } else {
+    statements.push(
+      constDecl(
+        "offset",
+        ifCursor(
+          factory.createNumericLiteral(0),
+          factory.createAsExpression(
+            factory.createElementAccessExpression(decodeCall(1), factory.createNumericLiteral(0)),
+            factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+          ),
+        ),
+      ),
+    );
+    nextValues = [
+      factory.createBinaryExpression(
+        id("offset"),
+        factory.createToken(SyntaxKind.PlusToken),
+        prop("page", "limit"),
+      ),
+    ];
+  }
+  args.push(
+    factory.createPropertyAssignment(
+      id(fn.limitArg),
+      factory.createCallExpression(id("fetchLimit"), undefined, [id("page")]),
+    ),
+  );
+  if (fn.offsetArg !== undefined) {
+    args.push(
+      fn.offsetArg === "offset"
+        ? factory.createShorthandPropertyAssignment(id("offset"))
+        : factory.createPropertyAssignment(id(fn.offsetArg), id("offset")),
+    );
+  }
+
+  const result = (items: Expression, nextCursor: Expression) =>
+    factory.createReturnStatement(
+      factory.createObjectLiteralExpression([
+        factory.createPropertyAssignment(id("items"), rowItems(items, fn.cursorOnly)),
+        factory.createPropertyAssignment(id("nextCursor"), nextCursor),
+      ]),
+    );
+  const pageLimit = prop("page", "limit");
+
+  statements.push(
+    constDecl(
+      "rows",
+      factory.createAwaitExpression(
+        factory.createCallExpression(id(fn.rows.name.text), undefined, [
+          id(isIdentifier(client.name) ? client.name.text : "client"),
+          factory.createObjectLiteralExpression(args, true),
+        ]),
+      ),
+    ),
+    // A row beyond the limit means another page follows
+    factory.createIfStatement(
+      factory.createBinaryExpression(
+        prop("rows", "length"),
+        factory.createToken(SyntaxKind.LessThanEqualsToken),
+        pageLimit,
+      ),
+      factory.createBlock([result(id("rows"), factory.createNull())], true),
+    ),
+  );
+  if (fn.offsetArg === undefined) {
+    statements.push(
+      constDecl(
+        "last",
+        factory.createElementAccessExpression(
+          id("rows"),
+          factory.createBinaryExpression(
+            pageLimit,
+            factory.createToken(SyntaxKind.MinusToken),
+            factory.createNumericLiteral(1),
+          ),
+        ),
+      ),
+    );
+  }
+  statements.push(
+    result(
+      factory.createCallExpression(prop("rows", "slice"), undefined, [
+        factory.createNumericLiteral(0),
+        pageLimit,
+      ]),
+      factory.createAsExpression(
+        factory.createCallExpression(id("encodeCursor"), undefined, [
+          factory.createArrayLiteralExpression(nextValues),
+        ]),
+        cursorType,
+      ),
+    ),
+  );
+
+  return factory.createFunctionDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword), factory.createToken(SyntaxKind.AsyncKeyword)],
+    undefined,
+    id(fn.name),
+    undefined,
+    params,
+    typeRef("Promise", [typeRef("Page", [typeRef(fn.returnIface), cursorType])]),
+    factory.createBlock(statements, true),
+  );
+}
+
+// Contents of pagination.ts; each entry is printed as its own node
+const paginationModule = [
+  String.raw`
+/** A page of rows, and the cursor of the next page or null after the last page. */
+export interface Page<Row, Cursor> {
+    items: Row[];
+    nextCursor: Cursor | null;
+}`,
+  String.raw`
+/** The number of rows of a page, and the nextCursor of the previous page; none for the first page. */
+export interface PageArgs<Cursor> {
+    limit: number;
+    cursor?: Cursor | null;
+}`,
+  String.raw`
+// Rows to fetch for a page: one more than it holds tells whether another page follows
+export function fetchLimit(page: PageArgs<unknown>): number {
+    if (!Number.isInteger(page.limit) || page.limit < 1) {
+        throw new RangeError("page limit must be a positive integer; got " + page.limit);
+    }
+    return page.limit + 1;
+}`,
+  String.raw`
+export function encodeCursor(values: unknown[]): string {
+    const json = JSON.stringify(values, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+    return Buffer.from(json).toString("base64url");
+}`,
+  String.raw`
+export function decodeCursor(cursor: string, length: number): unknown[] {
+    let values: unknown;
+    try {
+        values = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    } catch {
+        values = undefined;
+    }
+    if (!Array.isArray(values) || values.length !== length) {
+        throw new TypeError("invalid page cursor");
+    }
+    return values;
+}`,
+];
+
+export function paginationFileNodes(): Node[] {
+  return paginationModule.map(sourceNode);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EmitHint,
+  FunctionDeclaration,
+  NewLineKind,
+  ScriptKind,
+  ScriptTarget,
+  createPrinter,
+  createSourceFile,
+  isFunctionDeclaration,
+} from "typescript";
+
+import { querierDecls } from "./querier";
+
+// Parse the query functions a driver would generate
+function functions(source: string): FunctionDeclaration[] {
+  const file = createSourceFile("query.ts", source, ScriptTarget.Latest, true, ScriptKind.TS);
+  return file.statements.filter(isFunctionDeclaration);
+}
+
+function print(source: string): string {
+  const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+  const printer = createPrinter({ newLine: NewLineKind.LineFeed });
+  const methods = functions(source).map((decl) => ({ decl, doc: [] }));
+  return querierDecls(methods)
+    .map((node) => printer.printNode(EmitHint.Unspecified, node, file))
+    .join("\n");
+}
+
+describe("querierDecls", () => {
+  it("binds the query functions to the client", () => {
+    const output = print(`
+      export async function getAuthor(sql: Client, args: GetAuthorArgs): Promise<Author | null> {}
+      export async function listAuthors(sql: Client): Promise<Author[]> {}
+    `);
+    expect(output).toContain("getAuthor(args: GetAuthorArgs): Promise<Author | null>;");
+    expect(output).toContain("export class Queries implements Querier {");
+    expect(output).toContain("private readonly sql: Client;");
+    expect(output).toContain("withTx(tx: Client): Queries {\n        return new Queries(tx);");
+    expect(output).toContain("return getAuthor(this.sql, args);");
+    expect(output).toContain("return listAuthors(this.sql);");
+  });
+
+  it("passes the client of stream functions that take another one", () => {
+    const output = print(`
+      export async function listAuthors(client: Client): Promise<Author[]> {}
+      export async function* listAuthorsStream(client: Client, batchSize: number = 1000): AsyncGenerator<Author[]> {}
+      export async function* listBooksStream(client: Pool, batchSize: number = 1000): AsyncGenerator<Book[]> {}
+    `);
+    expect(output).toContain("listAuthorsStream(batchSize?: number): AsyncGenerator<Author[]>;");
+    expect(output).toContain("return listAuthorsStream(this.client, batchSize);");
+    expect(output).toContain(
+      "listBooksStream(client: Pool, batchSize?: number): AsyncGenerator<Book[]>;",
+    );
+    expect(output).toContain("return listBooksStream(client, batchSize);");
+  });
+
+  it("emits nothing for files without queries", () => {
+    expect(querierDecls([])).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * The Querier interface and Queries class of a query file, emitted with the
+ * `emit_querier` option.
+ *
+ * Queries binds every query function of the file to a client, so services can
+ * take a Querier and tests can pass a fake. The methods are derived from the
+ * generated functions, whose first parameter is the client of the driver.
+ * Stream functions that need another client, a pg client checked out of the
+ * pool or a mysql2 pool, keep it as the first parameter of their method.
+ */
+
+import {
+  FunctionDeclaration,
+  Identifier,
+  Node,
+  SyntaxKind,
+  TypeNode,
+  factory,
+  isIdentifier,
+  isTypeReferenceNode,
+} from "typescript";
+
+import { withDoc } from "./drivers/utils";
+
+export interface QuerierMethod {
+  decl: FunctionDeclaration;
+  // TSDoc of the query
+  doc: string[];
+}
+
+function methodName(decl: FunctionDeclaration): Identifier {
+  if (decl.name === undefined) {
+    throw new Error("query functions must be named");
+  }
+  return factory.createIdentifier(decl.name.text);
+}
+
+// The parameters of a query function after the client, or all of them for a
+// function that takes another client than the class
+function argParams(decl: FunctionDeclaration, clientType: TypeNode) {
+  return takesClient(decl, clientType) ? decl.parameters.slice(1) : decl.parameters;
+}
+
+// The same parameters in a method signature, where defaults make them optional
+function signatureParams(decl: FunctionDeclaration, clientType: TypeNode) {
+  return argParams(decl, clientType).map((param) =>
+    param.initializer === undefined
+      ? param
+      : factory.updateParameterDeclaration(
+          param,
+          param.modifiers,
+          param.dotDotDotToken,
+          param.name,
+          factory.createToken(SyntaxKind.QuestionToken),
+          param.type,
+          undefined,
+        ),
+  );
+}
+
+// Whether a function takes the client type of the Queries class
+function takesClient(decl: FunctionDeclaration, clientType: TypeNode) {
+  const typ = decl.parameters[0]?.type;
+  if (typ === undefined || typ.kind !== clientType.kind) {
+    return false;
+  }
+  if (isTypeReferenceNode(typ) && isTypeReferenceNode(clientType)) {
+    return (
+      isIdentifier(typ.typeName) &&
+      isIdentifier(clientType.typeName) &&
+      typ.typeName.text === clientType.typeName.text
+    );
+  }
+  return true;
+}
+
+function thisClient(clientName: string) {
+  return factory.createPropertyAccessExpression(
+    factory.createThis(),
+    factory.createIdentifier(clientName),
+  );
+}
+
+/**
+ * Generate:
+ *
+ *   export interface Querier {
+ *       getAuthor(args: GetAuthorArgs): Promise<Author | null>;
+ *   }
+ *
+ *   export class Queries implements Querier {
+ *       private readonly sql: Sql;
+ *       constructor(sql: Sql) { this.sql = sql; }
+ *       withTx(tx: Sql): Queries { return new Queries(tx); }
+ *       getAuthor(args: GetAuthorArgs): Promise<Author | null> { return getAuthor(this.sql, args); }
+ *   }
+ *
+ * with listAuthorsStream(client: ClientBase, batchSize?: number) for a stream
+ * function of pg, which takes a ClientBase rather than the Client of the file.
+ */
+export function querierDecls(methods: QuerierMethod[]): Node[] {
+  if (methods.length === 0) {
+    return [];
+  }
+  const client = methods[0].decl.parameters[0];
+  if (client === undefined || !isIdentifier(client.name) || client.type === undefined) {
+    throw new Error("query functions must take the client as their first parameter");
+  }
+  const clientName = client.name.text;
+  const clientType: TypeNode = client.type;
+  const queriesType = factory.createTypeReferenceNode(factory.createIdentifier("Queries"));
+
+  const querier = factory.createInterfaceDeclaration(
+    [factory.createToken(SyntaxKind.ExportKeyword)],
+    factory.createIdentifier("Querier"),
+    undefined,
+    undefined,
+    methods.map(({ decl, doc }) =>
+      withDoc(
+        factory.createMethodSignature(
+          undefined,
+          methodName(decl),
+          undefined,
+          undefined,
+          signatureParams(decl, clientType),
+          decl.type,
+        ),
+        doc,
+      ),
+    ),
+  );
+
+  const members = [
+    factory.createPropertyDeclaration(
+      [
+        factory.createToken(SyntaxKind.PrivateKeyword),
+        factory.createToken(SyntaxKind.ReadonlyKeyword),
+      ],
+      factory.createIdentifier(clientName),
+      undefined,
+      clientType,
+      undefined,
+    ),
+    factory.createConstructorDeclaration(
+      undefined,
+      [
+        factory.createParameterDeclaration(
+          undefined,
+          undefined,
+          factory.createIdentifier(clientName),
+          undefined,
+          clientType,
+        ),
+      ],
+      factory.createBlock(
+        [
+          factory.createExpressionStatement(
+            factory.createBinaryExpression(
+              thisClient(clientName),
+              factory.createToken(SyntaxKind.EqualsToken),
+              factory.createIdentifier(clientName),
+            ),
+          ),
+        ],
+        true,
+      ),
+    ),
+    withDoc(
+      factory.createMethodDeclaration(
+        undefined,
+        undefined,
+        factory.createIdentifier("withTx"),
+        undefined,
+        undefined,
+        [
+          factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            factory.createIdentifier("tx"),
+            undefined,
+            clientType,
+          ),
+        ],
+        queriesType,
+        factory.createBlock(
+          [
+            factory.createReturnStatement(
+              factory.createNewExpression(factory.createIdentifier("Queries"), undefined, [
+                factory.createIdentifier("tx"),
+              ]),
+            ),
+          ],
+          true,
+        ),
+      ),
+      ["The same queries run on a transaction, e.g. the client of a transaction callback."],
+    ),
+    ...methods.map(({ decl }) =>
+      factory.createMethodDeclaration(
+        undefined,
+        undefined,
+        methodName(decl),
+        undefined,
+        undefined,
+        argParams(decl, clientType),
+        decl.type,
+        factory.createBlock(
+          [
+            factory.createReturnStatement(
+              factory.createCallExpression(methodName(decl), undefined, [
+                ...(takesClient(decl, clientType) ? [thisClient(clientName)] : []),
+                ...argParams(decl, clientType).map((param) =>
+                  factory.createIdentifier(isIdentifier(param.name) ? param.name.text : "args"),
+                ),
+              ]),
+            ),
+          ],
+          true,
+        ),
+      ),
+    ),
+  ];
+
+  const queries = withDoc(
+    factory.createClassDeclaration(
+      [factory.createToken(SyntaxKind.ExportKeyword)],
+      factory.createIdentifier("Queries"),
+      undefined,
+      [
+        factory.createHeritageClause(SyntaxKind.ImplementsKeyword, [
+          factory.createExpressionWithTypeArguments(factory.createIdentifier("Querier"), undefined),
+        ]),
+      ],
+      members,
+    ),
+    ["The queries of this file bound to a client."],
+  );
+
+  return [querier, queries];
+}
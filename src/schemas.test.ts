@@ -0,0 +1,156 @@
+import { describe, expect, it } from "bun:test";
+import {
+  EmitHint,
+  Node,
+  NewLineKind,
+  ScriptKind,
+  ScriptTarget,
+  SyntaxKind,
+  TypeNode,
+  createPrinter,
+  createSourceFile,
+  factory,
+  isFunctionDeclaration,
+} from "typescript";
+
+import { Context } from "./context";
+import { Column, Enum, Identifier, Table } from "./gen/plugin/codegen_pb";
+import { DEFAULT_OPTIONS } from "./options";
+import { schemaDecl, typeSchema, validateArgs } from "./schemas";
+
+const ctx: Context = {
+  options: DEFAULT_OPTIONS,
+  defaultSchema: "public",
+  enums: new Map([["level", new Enum({ name: "level", vals: ["low", "high"] })]]),
+  composites: new Map(),
+  jsonTypes: new Map(),
+  models: new Map([
+    [
+      "public.authors",
+      {
+        name: "Author",
+        schema: "public",
+        table: new Table({ rel: new Identifier({ name: "authors" }) }),
+        columns: [],
+      },
+    ],
+  ]),
+};
+
+const file = createSourceFile("file.ts", "", ScriptTarget.Latest, false, ScriptKind.TS);
+const printer = createPrinter({ newLine: NewLineKind.LineFeed });
+
+function print(node: Node): string {
+  return printer.printNode(EmitHint.Unspecified, node, file);
+}
+
+function ref(name: string): TypeNode {
+  return factory.createTypeReferenceNode(name);
+}
+
+function nullable(typ: TypeNode): TypeNode {
+  return factory.createUnionTypeNode([typ, factory.createLiteralTypeNode(factory.createNull())]);
+}
+
+describe("typeSchema", () => {
+  const string = factory.createKeywordTypeNode(SyntaxKind.StringKeyword);
+
+  it("maps keywords, arrays and nullable types", () => {
+    const imports = new Set<string>();
+    const schema = (typ: TypeNode, validator: "zod" | "valibot" = "zod") =>
+      print(typeSchema(ctx, validator, typ, undefined, imports));
+    expect(schema(string)).toBe("z.string()");
+    expect(schema(nullable(factory.createArrayTypeNode(string)))).toBe(
+      "z.array(z.string()).nullable()",
+    );
+    expect(schema(nullable(string), "valibot")).toBe("v.nullable(v.string())");
+    expect(schema(ref("Date"))).toBe(
+      "z.union([z.date(), z.string(), z.number()]).pipe(z.coerce.date())",
+    );
+    expect(schema(factory.createKeywordTypeNode(SyntaxKind.BigIntKeyword))).toBe(
+      "z.union([z.bigint(), z.string(), z.number()]).pipe(z.coerce.bigint())",
+    );
+    expect(schema(factory.createKeywordTypeNode(SyntaxKind.BigIntKeyword), "valibot")).toBe(
+      "v.pipe(v.union([v.bigint(), v.pipe(v.string(), v.regex(/^-?\\d+$/)), v.pipe(v.number(), v.integer())]), v.transform(value => BigInt(value)))",
+    );
+    expect(schema(ref("Buffer"), "valibot")).toBe("v.instance(Buffer)");
+    expect(schema(ref("Decimal"))).toBe("z.custom<Decimal>()");
+    expect(schema(ref("Decimal"), "valibot")).toBe("v.custom<Decimal>(() => true)");
+    expect(imports.size).toBe(0);
+  });
+
+  it("does not check the annotated types of JSON columns", () => {
+    const column = new Column({ name: "profile", type: new Identifier({ name: "jsonb" }) });
+    expect(print(typeSchema(ctx, "zod", nullable(ref("Profile")), column, new Set()))).toBe(
+      "z.unknown()",
+    );
+    expect(print(typeSchema(ctx, "valibot", ref("Profile"), column, new Set()))).toBe(
+      "v.unknown()",
+    );
+  });
+
+  it("accepts the values of enums", () => {
+    const column = new Column({ name: "level", type: new Identifier({ name: "level" }) });
+    expect(print(typeSchema(ctx, "zod", ref("Level"), column, new Set()))).toBe(
+      'z.enum(["low", "high"])',
+    );
+    expect(print(typeSchema(ctx, "valibot", ref("Level"), column, new Set()))).toBe(
+      'v.picklist(["low", "high"])',
+    );
+  });
+
+  it("references model schemas and records their imports", () => {
+    const imports = new Set<string>();
+    expect(print(typeSchema(ctx, "zod", nullable(ref("Author")), undefined, imports))).toBe(
+      "AuthorSchema.nullable()",
+    );
+    expect([...imports]).toEqual(["AuthorSchema"]);
+  });
+});
+
+describe("schemaDecl", () => {
+  it("exports an object schema", () => {
+    const fields = [
+      {
+        name: "id",
+        type: factory.createKeywordTypeNode(SyntaxKind.NumberKeyword),
+        optional: false,
+      },
+      { name: "bio", type: nullable(ref("Date")), optional: true },
+    ];
+    const output = print(schemaDecl(ctx, "valibot", "GetAuthorArgs", fields, new Set()));
+    expect(output).toContain("/** Schema for GetAuthorArgs. */");
+    expect(output).toContain("export const GetAuthorArgsSchema = v.object({");
+    expect(output).toContain("id: v.number(),");
+    expect(output).toContain("bio: v.optional(v.nullable(v.pipe(");
+  });
+});
+
+describe("validateArgs", () => {
+  function validate(source: string, validator: "zod" | "valibot") {
+    const parsed = createSourceFile("query.ts", source, ScriptTarget.Latest, true, ScriptKind.TS);
+    const decl = parsed.statements.find(isFunctionDeclaration)!;
+    return print(validateArgs(validator, decl, "GetAuthorArgs"));
+  }
+
+  it("parses the arguments before running the query", () => {
+    expect(
+      validate("async function getAuthor(sql: Sql, args: GetAuthorArgs) { run(); }", "zod"),
+    ).toContain("{ args = GetAuthorArgsSchema.parse(args); run(); }");
+    expect(
+      validate("async function getAuthor(sql: Sql, args: GetAuthorArgs) { run(); }", "valibot"),
+    ).toContain("args = v.parse(GetAuthorArgsSchema, args);");
+  });
+
+  it("parses every argument of a batch", () => {
+    expect(
+      validate("async function getAuthor(sql: Sql, batch: GetAuthorArgs[]) { run(); }", "zod"),
+    ).toContain("batch = batch.map(args => GetAuthorArgsSchema.parse(args));");
+  });
+
+  it("leaves functions without arguments unchanged", () => {
+    expect(validate("async function listAuthors(sql: Sql) { run(); }", "zod")).not.toContain(
+      "parse",
+    );
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Runtime validation schemas for Args, Row and model interfaces, emitted with
+ * the `validator` option for zod or valibot.
+ *
+ * A schema is derived from the TypeScript types the interface declares, so it
+ * follows overrides and driver mappings. Dates are coerced from dates, strings
+ * and numbers, enums accept their values, and types without a runtime check,
+ * such as overrides and helper interfaces, are accepted as they are. JSON
+ * columns are unknown: their annotated types are not checked.
+ */
+
+import {
+  Expression,
+  FunctionDeclaration,
+  ImportDeclaration,
+  NodeFlags,
+  Statement,
+  SyntaxKind,
+  TypeNode,
+  VariableStatement,
+  factory,
+  isArrayTypeNode,
+  isIdentifier,
+  isLiteralTypeNode,
+  isParenthesizedTypeNode,
+  isStringLiteral,
+  isTypeReferenceNode,
+  isUnionTypeNode,
+} from "typescript";
+
+import { Context } from "./context";
+import { catalogTypeName, getEnumName, withDoc } from "./drivers/utils";
+import { Column } from "./gen/plugin/codegen_pb";
+import { isJsonColumn } from "./jsontypes";
+import { MODELS_FILE } from "./models";
+import { Validator } from "./options";
+
+export interface SchemaField {
+  name: string;
+  type: TypeNode;
+  column?: Column;
+  optional: boolean;
+}
+
+export function schemaName(typeName: string): string {
+  return `${typeName}Schema`;
+}
+
+// Generate: z.<name>(args) or v.<name>(args)
+function call(validator: Validator, name: string, args: Expression[] = [], typeArgs?: TypeNode[]) {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier(validator === "zod" ? "z" : "v"),
+      factory.createIdentifier(name),
+    ),
+    typeArgs,
+    args,
+  );
+}
+
+// Generate: <schema>.<name>() for zod, v.<name>(<schema>) for valibot
+function wrap(validator: Validator, name: "nullable" | "optional", schema: Expression) {
+  if (validator === "valibot") {
+    return call(validator, name, [schema]);
+  }
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(schema, factory.createIdentifier(name)),
+    undefined,
+    [],
+  );
+}
+
+// Generate: z.union([...]).pipe(z.coerce.<name>())
+function zodCoerce(union: Expression, name: "date" | "bigint"): Expression {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(union, factory.createIdentifier("pipe")),
+    undefined,
+    [
+      factory.createCallExpression(
+        factory.createPropertyAccessExpression(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("z"),
+            factory.createIdentifier("coerce"),
+          ),
+          factory.createIdentifier(name),
+        ),
+        undefined,
+        [],
+      ),
+    ],
+  );
+}
+
+// Generate: (value) => <name>(value), or (value) => new <name>(value)
+function convertFunction(name: string, constructor: boolean): Expression {
+  const value = factory.createIdentifier("value");
+  return factory.createArrowFunction(
+    undefined,
+    undefined,
+    [factory.createParameterDeclaration(undefined, undefined, "value")],
+    undefined,
+    factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+    constructor
+      ? factory.createNewExpression(factory.createIdentifier(name), undefined, [value])
+      : factory.createCallExpression(factory.createIdentifier(name), undefined, [value]),
+  );
+}
+
+// Dates arrive as strings or numbers in JSON; other values fail instead of
+// being coerced, e.g. null to the epoch
+function dateSchema(validator: Validator): Expression {
+  const union = call(validator, "union", [
+    factory.createArrayLiteralExpression([
+      call(validator, "date"),
+      call(validator, "string"),
+      call(validator, "number"),
+    ]),
+  ]);
+  if (validator === "zod") {
+    // z.union([z.date(), z.string(), z.number()]).pipe(z.coerce.date())
+    return zodCoerce(union, "date");
+  }
+  // v.pipe(v.union([v.date(), v.string(), v.number()]), v.transform((value) => new Date(value)), v.date())
+  return call(validator, "pipe", [
+    union,
+    call(validator, "transform", [convertFunction("Date", true)]),
+    call(validator, "date"),
+  ]);
+}
+
+// 64-bit integers arrive as strings or numbers in JSON, which cannot carry a
+// bigint; strings and numbers that are not integers fail
+function bigintSchema(validator: Validator): Expression {
+  if (validator === "zod") {
+    // z.union([z.bigint(), z.string(), z.number()]).pipe(z.coerce.bigint())
+    return zodCoerce(
+      call(validator, "union", [
+        factory.createArrayLiteralExpression([
+          call(validator, "bigint"),
+          call(validator, "string"),
+          call(validator, "number"),
+        ]),
+      ]),
+      "bigint",
+    );
+  }
+  // v.pipe(v.union([v.bigint(), v.pipe(v.string(), v.regex(/^-?\d+$/)),
+  //   v.pipe(v.number(), v.integer())]), v.transform((value) => BigInt(value)))
+  // checks the input before BigInt(), which throws on other strings and numbers
+  return call(validator, "pipe", [
+    call(validator, "union", [
+      factory.createArrayLiteralExpression([
+        call(validator, "bigint"),
+        call(validator, "pipe", [
+          call(validator, "string"),
+          call(validator, "regex", [factory.createRegularExpressionLiteral("/^-?\\d+$/")]),
+        ]),
+        call(validator, "pipe", [call(validator, "number"), call(validator, "integer")]),
+      ]),
+    ]),
+    call(validator, "transform", [convertFunction("BigInt", false)]),
+  ]);
+}
+
+// A type without a runtime check: z.custom<T>() or v.custom<T>(() => true)
+function customSchema(validator: Validator, typ: TypeNode): Expression {
+  if (validator === "zod") {
+    return call(validator, "custom", [], [typ]);
+  }
+  return call(
+    validator,
+    "custom",
+    [
+      factory.createArrowFunction(
+        undefined,
+        undefined,
+        [],
+        undefined,
+        factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+        factory.createTrue(),
+      ),
+    ],
+    [typ],
+  );
+}
+
+/**
+ * Generate the schema of a TypeScript type. `column` identifies enums, and the
+ * names of the model schemas referenced, by sqlc.embed() properties, are added
+ * to `imports`.
+ */
+export function typeSchema(
+  ctx: Context,
+  validator: Validator,
+  typ: TypeNode,
+  column: Column | undefined,
+  imports: Set<string>,
+): Expression {
+  const schema = (t: TypeNode) => typeSchema(ctx, validator, t, column, imports);
+  // JSON columns are not checked against their annotated types
+  if (isJsonColumn(column)) {
+    return call(validator, "unknown");
+  }
+  switch (typ.kind) {
+    case SyntaxKind.StringKeyword:
+      return call(validator, "string");
+    case SyntaxKind.NumberKeyword:
+      return call(validator, "number");
+    case SyntaxKind.BooleanKeyword:
+      return call(validator, "boolean");
+    case SyntaxKind.BigIntKeyword:
+      return bigintSchema(validator);
+    case SyntaxKind.UnknownKeyword:
+      return call(validator, "unknown");
+    case SyntaxKind.AnyKeyword:
+      return call(validator, "any");
+  }
+  if (isParenthesizedTypeNode(typ)) {
+    return schema(typ.type);
+  }
+  if (isArrayTypeNode(typ)) {
+    return call(validator, "array", [schema(typ.elementType)]);
+  }
+  if (isLiteralTypeNode(typ)) {
+    if (typ.literal.kind === SyntaxKind.NullKeyword) {
+      return call(validator, "null");
+    }
+    if (isStringLiteral(typ.literal)) {
+      return call(validator, "literal", [factory.createStringLiteral(typ.literal.text)]);
+    }
+  }
+  if (isUnionTypeNode(typ)) {
+    const isNull = (t: TypeNode) =>
+      isLiteralTypeNode(t) && t.literal.kind === SyntaxKind.NullKeyword;
+    const types = typ.types.filter((t) => !isNull(t));
+    const members =
+      types.length === 1
+        ? schema(types[0])
+        : call(validator, "union", [factory.createArrayLiteralExpression(types.map(schema))]);
+    return types.length < typ.types.length ? wrap(validator, "nullable", members) : members;
+  }
+  if (isTypeReferenceNode(typ) && isIdentifier(typ.typeName)) {
+    const name = typ.typeName.text;
+    if (name === "Date") {
+      return dateSchema(validator);
+    }
+    if (name === "Buffer" || name === "Uint8Array") {
+      return call(validator, validator === "zod" ? "instanceof" : "instance", [
+        factory.createIdentifier(name),
+      ]);
+    }
+    const enumName = getEnumName(ctx, column);
+    const enumDef = enumName === null ? undefined : ctx.enums.get(enumName);
+    if (enumName !== null && enumDef !== undefined && catalogTypeName(enumName) === name) {
+      const values = factory.createArrayLiteralExpression(
+        enumDef.vals.map((val) => factory.createStringLiteral(val)),
+      );
+      return call(validator, validator === "zod" ? "enum" : "picklist", [values]);
+    }
+    if ([...ctx.models.values()].some((model) => model.name === name)) {
+      imports.add(schemaName(name));
+      return factory.createIdentifier(schemaName(name));
+    }
+  }
+  return customSchema(validator, typ);
+}
+
+/**
+ * Generate: export const GetAuthorArgsSchema = z.object({ ... });
+ */
+export function schemaDecl(
+  ctx: Context,
+  validator: Validator,
+  typeName: string,
+  fields: SchemaField[],
+  imports: Set<string>,
+): VariableStatement {
+  const properties = fields.map((field) => {
+    const schema = typeSchema(ctx, validator, field.type, field.column, imports);
+    return factory.createPropertyAssignment(
+      factory.createIdentifier(field.name),
+      field.optional ? wrap(validator, "optional", schema) : schema,
+    );
+  });
+  return withDoc(
+    factory.createVariableStatement(
+      [factory.createToken(SyntaxKind.ExportKeyword)],
+      factory.createVariableDeclarationList(
+        [
+          factory.createVariableDeclaration(
+            factory.createIdentifier(schemaName(typeName)),
+            undefined,
+            undefined,
+            call(validator, "object", [factory.createObjectLiteralExpression(properties, true)]),
+          ),
+        ],
+        NodeFlags.Const,
+      ),
+    ),
+    [`Schema for ${typeName}.`],
+  );
+}
+
+/**
+ * Import the validation library, and the model schemas a file references:
+ *   import { z } from "zod";
+ *   import { AuthorSchema } from "./models";
+ */
+export function schemaImportDecls(validator: Validator, models: Set<string>): ImportDeclaration[] {
+  const decls = [
+    factory.createImportDeclaration(
+      undefined,
+      validator === "zod"
+        ? factory.createImportClause(
+            false,
+            undefined,
+            factory.createNamedImports([
+              factory.createImportSpecifier(false, undefined, factory.createIdentifier("z")),
+            ]),
+          )
+        : factory.createImportClause(
+            false,
+            undefined,
+            factory.createNamespaceImport(factory.createIdentifier("v")),
+          ),
+      factory.createStringLiteral(validator),
+      undefined,
+    ),
+  ];
+  if (models.size > 0) {
+    decls.push(
+      factory.createImportDeclaration(
+        undefined,
+        factory.createImportClause(
+          false,
+          undefined,
+          factory.createNamedImports(
+            [...models]
+              .sort()
+              .map((name) =>
+                factory.createImportSpecifier(false, undefined, factory.createIdentifier(name)),
+              ),
+          ),
+        ),
+        factory.createStringLiteral(`./${MODELS_FILE}`),
+        undefined,
+      ),
+    );
+  }
+  return decls;
+}
+
+// Generate: Schema.parse(args) or v.parse(Schema, args)
+function parseCall(validator: Validator, typeName: string, value: Expression): Expression {
+  const schema = factory.createIdentifier(schemaName(typeName));
+  if (validator === "valibot") {
+    return call(validator, "parse", [schema, value]);
+  }
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(schema, factory.createIdentifier("parse")),
+    undefined,
+    [value],
+  );
+}
+
+/**
+ * Validate the arguments of a query function before it runs the query:
+ *   args = GetAuthorArgsSchema.parse(args);
+ *   batch = batch.map((args) => CreateAuthorArgsSchema.parse(args));
+ * Functions without arguments are returned unchanged.
+ */
+export function validateArgs(
+  validator: Validator,
+  decl: FunctionDeclaration,
+  argsTypeName: string,
+): FunctionDeclaration {
+  const param = decl.parameters.find(
+    (p) => isIdentifier(p.name) && (p.name.text === "args" || p.name.text === "batch"),
+  );
+  if (param === undefined || decl.body === undefined || !isIdentifier(param.name)) {
+    return decl;
+  }
+  const name = param.name.text;
+  const args = factory.createIdentifier("args");
+  const value =
+    name === "args"
+      ? parseCall(validator, argsTypeName, args)
+      : factory.createCallExpression(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier("batch"),
+            factory.createIdentifier("map"),
+          ),
+          undefined,
+          [
+            factory.createArrowFunction(
+              undefined,
+              undefined,
+              [factory.createParameterDeclaration(undefined, undefined, args)],
+              undefined,
+              factory.createToken(SyntaxKind.EqualsGreaterThanToken),
+              parseCall(validator, argsTypeName, args),
+            ),
+          ],
+        );
+  const statement: Statement = factory.createExpressionStatement(
+    factory.createBinaryExpression(
+      factory.createIdentifier(name),
+      factory.createToken(SyntaxKind.EqualsToken),
+      value,
+    ),
+  );
+  return factory.updateFunctionDeclaration(
+    decl,
+    decl.modifiers,
+    decl.asteriskToken,
+    decl.name,
+    decl.typeParameters,
+    decl.parameters,
+    decl.type,
+    factory.updateBlock(decl.body, [statement, ...decl.body.statements]),
+  );
+}
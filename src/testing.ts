@@ -0,0 +1,41 @@
+/**
+ * Helpers for the tests that run generated code.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  EmitHint,
+  NewLineKind,
+  Node,
+  ScriptKind,
+  ScriptTarget,
+  createPrinter,
+  createSourceFile,
+  isSourceFile,
+} from "typescript";
+
+/**
+ * Print generated nodes, like the files of the plugin, into fileName in a
+ * temporary directory and import it.
+ */
+export async function importNodes<T>(nodes: Node[], fileName: string): Promise<T> {
+  const file = createSourceFile(fileName, "", ScriptTarget.Latest, false, ScriptKind.TS);
+  const printer = createPrinter({ newLine: NewLineKind.LineFeed });
+  const source = nodes
+    .map((node) =>
+      isSourceFile(node)
+        ? printer.printFile(node)
+        : printer.printNode(EmitHint.Unspecified, node, file),
+    )
+    .join("\n");
+  const dir = mkdtempSync(join(tmpdir(), "sqlc-gen-typescript-"));
+  try {
+    const path = join(dir, fileName);
+    writeFileSync(path, source);
+    return await import(path);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}